@@ -1,9 +1,39 @@
-import { MarkdownPostProcessorContext, MarkdownRenderChild, App, Notice, setIcon, MarkdownView, TFile } from "obsidian";
+import { MarkdownPostProcessorContext, MarkdownRenderChild, MarkdownRenderer, App, Component, Notice, setIcon, MarkdownView, TFile } from "obsidian";
 import { debug } from './logger';
-import { TodoistService } from "./todoistService";
+import { TaskListItem, TodoistService } from "./todoistService";
 import { SyncManager } from "./syncManager";
 import type { ObsidoistSettings } from "./settings";
-import { Task } from '@doist/todoist-api-typescript';
+import { getColorByKey } from '@doist/todoist-api-typescript';
+import { dueDatePart, dueValueAt, hasDueTime, shiftDate } from './dueDates';
+import { TaskGroup, TaskGroupBy, TaskSort, groupTasks, parseGroupBy, parseSort, sortTasks } from './taskListOrder';
+import { BoardColumn, BoardColumnConfig, BoardTarget, buildBoardColumns, isInColumn, parseBoardColumns } from './taskBoard';
+import { Agenda, CalendarMonth, DEFAULT_AGENDA_DAYS, WEEKDAY_NAMES, buildAgenda, buildCalendarMonth, dayTitle, monthTitle, parseAgendaDays, rescheduledDue, shiftMonth } from './taskCalendar';
+
+type TaskView = 'list' | 'board' | 'agenda' | 'calendar';
+
+function isTaskView(value: string): value is TaskView {
+	return value === 'list' || value === 'board' || value === 'agenda' || value === 'calendar';
+}
+
+// How a block lays out its tasks; at most one is set, and none means a plain list
+interface TaskLayout {
+	groups?: TaskGroup[];
+	columns?: BoardColumn[];
+	agenda?: Agenda;
+	calendar?: CalendarMonth;
+}
+
+const DAY_VIEW_SORT: TaskSort[] = [{ key: 'due', descending: false }, { key: 'priority', descending: false }];
+
+// Badge text and state of a due date: today, tomorrow and yesterday by name, other dates as written
+function dueBadge(dueDate: string, timezone: string | undefined, now: number): { text: string; overdue: boolean; today: boolean } {
+	const today = dueValueAt(now).slice(0, 10);
+	const date = dueDatePart(dueDate);
+	const names: Record<string, string> = { [today]: 'Today', [shiftDate(today, 1)]: 'Tomorrow', [shiftDate(today, -1)]: 'Yesterday' };
+	const time = hasDueTime(dueDate) ? ` ${dueDate.slice(11, 16)}` : '';
+	const overdue = hasDueTime(dueDate) ? dueDate < dueValueAt(now, timezone) : date < today;
+	return { text: `${names[date] ?? date}${time}`, overdue, today: date === today };
+}
 
 export class ObsidoistTaskList extends MarkdownRenderChild {
     app: App;
@@ -22,7 +52,14 @@ export class ObsidoistTaskList extends MarkdownRenderChild {
     private editBtn: HTMLElement | null = null; 
     private listContainer: HTMLElement | null = null;
     private footer: HTMLElement | null = null;
-    private ul: HTMLElement | null = null;
+	// Month shown by a calendar; the current month until the user pages
+	private calendarMonth: string | null = null;
+	// Card being dragged on a board, agenda or calendar
+	private draggedCard: { li: HTMLElement; task: TaskListItem } | null = null;
+	// Keys of the groups folded by the user
+	private collapsedGroups = new Set<string>();
+	// Owns the Markdown rendered into the rows; replaced on each render
+	private rowsComponent: Component | null = null;
 
     private codeBlockWrapper: HTMLElement | null = null;
 
@@ -98,6 +135,21 @@ export class ObsidoistTaskList extends MarkdownRenderChild {
         let filter = "";
         let name = "";
 		let limit: number | undefined = undefined;
+		let groupBy: TaskGroupBy | undefined = undefined;
+		let sort: TaskSort[] = [];
+		// Invalid options are reported by refresh() instead of breaking the block
+		const problems: string[] = [];
+		const read = <T>(parse: () => T, fallback: T): T => {
+			try {
+				return parse();
+			} catch (e) {
+				problems.push(e instanceof Error ? e.message : String(e));
+				return fallback;
+			}
+		};
+		let view: TaskView = 'list';
+		let columnConfig: BoardColumnConfig = { by: 'section', names: [] };
+		let days = DEFAULT_AGENDA_DAYS;
 
         for (const line of lines) {
             const trimmed = line.trim();
@@ -109,11 +161,38 @@ export class ObsidoistTaskList extends MarkdownRenderChild {
 				const raw = trimmed.substring(6).trim();
 				const parsed = Number.parseInt(raw || '0', 10);
 				if (Number.isFinite(parsed) && parsed > 0) limit = parsed;
+			} else if (trimmed.startsWith('group-by:')) {
+				groupBy = read(() => parseGroupBy(trimmed.substring(9)), undefined);
+			} else if (trimmed.startsWith('sort:')) {
+				sort = read(() => parseSort(trimmed.substring(5)), []);
+			} else if (trimmed.startsWith('view:')) {
+				const raw = trimmed.substring(5).trim().toLowerCase();
+				if (isTaskView(raw)) view = raw;
+				else problems.push(`Unknown view "${raw}"`);
+			} else if (trimmed.startsWith('columns:')) {
+				columnConfig = read(() => parseBoardColumns(trimmed.substring(8)), columnConfig);
+			} else if (trimmed.startsWith('days:')) {
+				days = read(() => parseAgendaDays(trimmed.substring(5)), days);
             }
         }
 
 
-        return { filter, name, limit };
+        return { filter, name, limit, groupBy, sort, view, columnConfig, days, problems };
+    }
+
+    // Board columns, agenda days, a calendar month or list groups, by the block's view
+    private layoutTasks(tasks: TaskListItem[], opts: { view: TaskView; groupBy?: TaskGroupBy; columnConfig: BoardColumnConfig; days: number }): TaskLayout {
+        const now = Date.now();
+        switch (opts.view) {
+            case 'board':
+                return { columns: buildBoardColumns(tasks, opts.columnConfig, this.service.getCachedProjects(), this.service.getSections()) };
+            case 'agenda':
+                return { agenda: buildAgenda(tasks, opts.days, now) };
+            case 'calendar':
+                return { calendar: buildCalendarMonth(tasks, this.calendarMonth ?? dueValueAt(now).slice(0, 7)) };
+            default:
+                return { groups: opts.groupBy ? groupTasks(tasks, opts.groupBy, now) : undefined };
+        }
     }
     
     onunload() {
@@ -278,22 +357,29 @@ export class ObsidoistTaskList extends MarkdownRenderChild {
         this.ensureDom();
         
         try {
-			const { filter, name, limit } = this.parseSourceConfig();
+			const { filter, name, limit, groupBy, sort, view, columnConfig, days, problems } = this.parseSourceConfig();
             
             // Update Title if present
             const titleEl = this.header?.querySelector('.obsidoist-title');
             if (titleEl) {
                 titleEl.textContent = name; // If empty, it collapses naturally
             }
+			if (problems.length > 0) throw new Error(problems.join('; '));
 
-			if (filter) {
+			// A filter evaluated locally renders at once; Todoist's results are only awaited for terms it alone understands
+			const remoteTerms = filter ? this.service.getRemoteFilterTerms(filter) : [];
+			if (filter && remoteTerms.length > 0) {
 				await this.maybeRefreshFilterFromRemote('render');
+			} else if (filter) {
+				void this.maybeRefreshFilterFromRemote('event');
 			}
 
-            const allTasks = await this.service.getTasks(filter);
+			// Days list their tasks by time unless sorted otherwise
+			const dayView = view === 'agenda' || view === 'calendar';
+            const allTasks = sortTasks(await this.service.getTasks(filter), sort.length === 0 && dayView ? DAY_VIEW_SORT : sort);
 			const tasks = limit ? allTasks.slice(0, limit) : allTasks;
-            
-			this.updateView(tasks, allTasks.length);
+
+			this.updateView(tasks, allTasks.length, remoteTerms, this.layoutTasks(tasks, { view, groupBy, columnConfig, days }));
 
         } catch (e) {
             console.error("[Obsidoist] Error fetching tasks:", e);
@@ -306,7 +392,7 @@ export class ObsidoistTaskList extends MarkdownRenderChild {
         }
     }
     
-    private updateView(tasks: Task[], totalCount: number) {
+    private updateView(tasks: TaskListItem[], totalCount: number, remoteTerms: string[] = [], layout: TaskLayout = {}) {
         this.ensureDom();
         
         // Remove loading indicator if present
@@ -317,94 +403,327 @@ export class ObsidoistTaskList extends MarkdownRenderChild {
         if (this.footer) {
 			if (tasks.length === totalCount) this.footer.setText(`Total ${totalCount} tasks`);
 			else this.footer.setText(`Total ${totalCount} tasks (showing ${tasks.length})`);
+			if (remoteTerms.length > 0) {
+				this.footer.createSpan({
+					cls: 'obsidoist-filter-remote',
+					text: ` · From Todoist: ${remoteTerms.join(', ')}`,
+					attr: { title: 'These terms cannot be evaluated offline; their lists show the results of the last sync.' }
+				});
+			}
         }
         
         if (!this.listContainer) return;
         
-        // Handle empty state
-        if (tasks.length === 0) {
+        if (this.rowsComponent) this.removeChild(this.rowsComponent);
+        const rowsComponent = this.addChild(new Component());
+        this.rowsComponent = rowsComponent;
+
+        // Handle empty state; a board keeps its columns so cards can be dropped into them
+        if (tasks.length === 0 && !layout.columns?.length && !layout.agenda && !layout.calendar) {
             this.listContainer.empty();
             this.listContainer.createDiv({ text: "No tasks found.", cls: "obsidoist-empty" });
-            this.ul = null;
             return;
         }
         
-        // Ensure UL exists
-        if (!this.ul || !this.listContainer.contains(this.ul)) {
-            // Clear potential empty message
-            const emptyMsg = this.listContainer.querySelector(".obsidoist-empty");
-            if (emptyMsg) emptyMsg.remove();
-            
-            this.ul = this.listContainer.createEl("ul");
-        } else {
-            this.ul.empty();
+        this.listContainer.empty();
+        if (layout.agenda) {
+            this.renderAgenda(layout.agenda, rowsComponent);
+            return;
+        }
+        if (layout.calendar) {
+            this.renderCalendar(layout.calendar, rowsComponent);
+            return;
+        }
+        if (layout.columns) {
+            this.renderBoard(layout.columns, rowsComponent);
+            return;
+        }
+        if (!layout.groups) {
+            const ul = this.listContainer.createEl("ul");
+            for (const task of tasks) this.renderTaskRow(ul, task, rowsComponent);
+            return;
+        }
+        for (const group of layout.groups) this.renderGroup(group, rowsComponent);
+    }
+
+    // A group header that folds its tasks away; folded groups stay folded across refreshes
+    private renderGroup(group: TaskGroup, rowsComponent: Component) {
+        if (!this.listContainer) return;
+        const section = this.listContainer.createDiv({ cls: "obsidoist-group" });
+        const header = section.createDiv({ cls: "obsidoist-group-header" });
+        const icon = header.createSpan({ cls: "obsidoist-group-toggle" });
+        header.createSpan({ cls: "obsidoist-group-title", text: group.title });
+        header.createSpan({ cls: "obsidoist-group-count", text: String(group.tasks.length) });
+        const ul = section.createEl("ul");
+        for (const task of group.tasks) this.renderTaskRow(ul, task, rowsComponent);
+
+        const apply = () => {
+            const collapsed = this.collapsedGroups.has(group.key);
+            section.toggleClass("is-collapsed", collapsed);
+            setIcon(icon, collapsed ? "chevron-right" : "chevron-down");
+        };
+        apply();
+        header.onclick = () => {
+            if (this.collapsedGroups.has(group.key)) this.collapsedGroups.delete(group.key);
+            else this.collapsedGroups.add(group.key);
+            apply();
+        };
+    }
+
+    private renderTaskRow(ul: HTMLElement, task: TaskListItem, rowsComponent: Component) {
+        const li = ul.createEl("li");
+        
+        const checkbox = li.createEl("input", { type: "checkbox" });
+        checkbox.checked = task.isCompleted;
+        
+        if (task.isCompleted) {
+            li.addClass("is-checked");
         }
         
-        // Render Tasks
-        for (const task of tasks) {
-            const li = this.ul.createEl("li");
-            
-            const checkbox = li.createEl("input", { type: "checkbox" });
-            checkbox.checked = task.isCompleted;
-            
-            if (task.isCompleted) {
+        checkbox.onchange = async () => {
+            const nextCompleted = checkbox.checked;
+			debug('Codeblock checkbox change', { id: task.id, nextCompleted });
+
+            if (nextCompleted) {
                 li.addClass("is-checked");
+            } else {
+                li.removeClass("is-checked");
             }
-            
-            checkbox.onchange = async () => {
-                const nextCompleted = checkbox.checked;
-				debug('Codeblock checkbox change', { id: task.id, nextCompleted });
-
-                if (nextCompleted) {
-                    li.addClass("is-checked");
-                } else {
-                    li.removeClass("is-checked");
-                }
-
-                if (this.refreshBtn && !this.refreshBtn.hasClass("obsidoist-spinning")) {
-                    this.refreshBtn.addClass("obsidoist-spinning");
-                }
-
-                try {
-					this.suppressServiceRefresh = true;
-					debug('Codeblock enqueue op', { id: task.id, op: nextCompleted ? 'close' : 'reopen' });
-                    if (nextCompleted) await this.service.closeTask(task.id);
-                    else await this.service.reopenTask(task.id);
-                } catch (err) {
-                    new Notice(`Failed to update task: ${err instanceof Error ? err.message : String(err)}`);
-
-                    checkbox.checked = !nextCompleted;
-                    if (checkbox.checked) li.addClass("is-checked");
-                    else li.removeClass("is-checked");
-
-					this.suppressServiceRefresh = false;
-                    this.refreshBtn?.removeClass("obsidoist-spinning");
-                    return;
-                }
-
-				try {
-					const { filter } = this.parseSourceConfig();
-					debug('Codeblock sync start', { filter: filter || undefined });
-					if (filter) await this.service.syncFilterNow(filter);
-					else await this.service.syncNow();
-
-					const file = this.sourceFile ?? this.app.workspace.getActiveFile();
-					debug('Codeblock syncDownSafe', { activeFile: file?.path });
-					if (file) {
-						await this.syncManager.syncDownSafe(file);
-					}
-
-					debug('Codeblock refresh view');
-					await this.refresh();
-				} finally {
-					debug('Codeblock done', { id: task.id });
-					this.suppressServiceRefresh = false;
-					setTimeout(() => this.refreshBtn?.removeClass("obsidoist-spinning"), 500);
-				}
-            };
-            
-            li.createEl("span", { text: task.content });
+
+            if (this.refreshBtn && !this.refreshBtn.hasClass("obsidoist-spinning")) {
+                this.refreshBtn.addClass("obsidoist-spinning");
+            }
+
+            try {
+				this.suppressServiceRefresh = true;
+				debug('Codeblock enqueue op', { id: task.id, op: nextCompleted ? 'close' : 'reopen' });
+                if (nextCompleted) await this.service.closeTask(task.id);
+                else await this.service.reopenTask(task.id);
+            } catch (err) {
+                new Notice(`Failed to update task: ${err instanceof Error ? err.message : String(err)}`);
+
+                checkbox.checked = !nextCompleted;
+                if (checkbox.checked) li.addClass("is-checked");
+                else li.removeClass("is-checked");
+
+				this.suppressServiceRefresh = false;
+                this.refreshBtn?.removeClass("obsidoist-spinning");
+                return;
+            }
+
+			await this.syncAfterChange(task.id);
+        };
+        
+        const body = li.createDiv({ cls: "obsidoist-task-body" });
+        const content = body.createDiv({ cls: "obsidoist-task-content" });
+        void MarkdownRenderer.render(this.app, task.content, content, this.ctx.sourcePath, rowsComponent);
+        this.renderTaskMeta(body, task);
+        return li;
+    }
+
+    // Sends a change queued from the block to Todoist and into the note, then re-renders the block
+    private async syncAfterChange(id: string) {
+		try {
+			const { filter } = this.parseSourceConfig();
+			debug('Codeblock sync start', { filter: filter || undefined });
+			if (filter) await this.service.syncFilterNow(filter);
+			else await this.service.syncNow();
+
+			const file = this.sourceFile ?? this.app.workspace.getActiveFile();
+			debug('Codeblock syncDownSafe', { activeFile: file?.path });
+			if (file) {
+				await this.syncManager.syncDownSafe(file);
+			}
+
+			debug('Codeblock refresh view');
+			await this.refresh();
+		} finally {
+			debug('Codeblock done', { id });
+			this.suppressServiceRefresh = false;
+			setTimeout(() => this.refreshBtn?.removeClass("obsidoist-spinning"), 500);
+		}
+    }
+
+    private renderBoard(columns: BoardColumn[], rowsComponent: Component) {
+        if (!this.listContainer) return;
+        const board = this.listContainer.createDiv({ cls: "obsidoist-board" });
+        for (const column of columns) {
+            const columnEl = board.createDiv({ cls: "obsidoist-board-column" });
+            const header = columnEl.createDiv({ cls: "obsidoist-board-header" });
+            header.createSpan({ cls: "obsidoist-group-title", text: column.title });
+            header.createSpan({ cls: "obsidoist-group-count", text: String(column.tasks.length) });
+            const ul = columnEl.createEl("ul");
+
+            for (const task of column.tasks) {
+                const li = this.renderTaskRow(ul, task, rowsComponent);
+                li.addClass("obsidoist-board-card");
+                this.makeDraggable(li, task);
+            }
+
+            this.makeDropTarget(columnEl, (card) => {
+                if (!isInColumn(card.task, column.target)) void this.dropCard(card.li, card.task, ul, () => this.moveToColumn(card.task, column.target));
+            });
+        }
+    }
+
+    private moveToColumn(task: TaskListItem, target: BoardTarget): Promise<boolean> {
+        if (target.kind === 'priority') return this.service.updateTask(task.id, undefined, { priority: target.priority });
+        return this.service.moveTask(task.id, target.projectId, target.kind === 'section' ? target.sectionId : undefined);
+    }
+
+    // Overdue tasks, then a group per day; the overdue group takes no drops
+    private renderAgenda(agenda: Agenda, rowsComponent: Component) {
+        if (!this.listContainer) return;
+        const now = Date.now();
+        const groups = [
+            ...(agenda.overdue.length > 0 ? [{ title: 'Overdue', date: undefined, tasks: agenda.overdue }] : []),
+            ...agenda.days.map(day => ({ title: dayTitle(day.date, now), date: day.date as string | undefined, tasks: day.tasks }))
+        ];
+        for (const group of groups) {
+            const section = this.listContainer.createDiv({ cls: "obsidoist-group obsidoist-agenda-day" });
+            const header = section.createDiv({ cls: "obsidoist-board-header" });
+            header.createSpan({ cls: "obsidoist-group-title", text: group.title });
+            header.createSpan({ cls: "obsidoist-group-count", text: String(group.tasks.length) });
+            const ul = section.createEl("ul");
+            for (const task of group.tasks) this.makeDraggable(this.renderTaskRow(ul, task, rowsComponent), task);
+            const date = group.date;
+            if (date) this.makeDropTarget(section, (card) => this.dropOnDay(card, date, ul));
+        }
+    }
+
+    private renderCalendar(calendar: CalendarMonth, rowsComponent: Component) {
+        if (!this.listContainer) return;
+        const today = dueValueAt(Date.now()).slice(0, 10);
+
+        const nav = this.listContainer.createDiv({ cls: "obsidoist-calendar-nav" });
+        const prev = nav.createEl("button", { cls: "obsidoist-calendar-prev", attr: { "aria-label": "Previous month" } });
+        setIcon(prev, "chevron-left");
+        nav.createSpan({ cls: "obsidoist-group-title", text: monthTitle(calendar.month) });
+        const next = nav.createEl("button", { cls: "obsidoist-calendar-next", attr: { "aria-label": "Next month" } });
+        setIcon(next, "chevron-right");
+        prev.onclick = () => {
+            this.calendarMonth = shiftMonth(calendar.month, -1);
+            void this.refresh();
+        };
+        next.onclick = () => {
+            this.calendarMonth = shiftMonth(calendar.month, 1);
+            void this.refresh();
+        };
+
+        const grid = this.listContainer.createDiv({ cls: "obsidoist-calendar" });
+        for (const name of WEEKDAY_NAMES) grid.createDiv({ cls: "obsidoist-calendar-weekday", text: name });
+        for (const day of calendar.weeks.flat()) {
+            const cell = grid.createDiv({ cls: "obsidoist-calendar-day" });
+            if (!day.date.startsWith(calendar.month)) cell.addClass("is-other-month");
+            if (day.date === today) cell.addClass("is-today");
+            cell.createDiv({ cls: "obsidoist-calendar-date", text: String(Number(day.date.slice(8, 10))) });
+            const ul = cell.createEl("ul");
+            for (const task of day.tasks) this.makeDraggable(this.renderTaskRow(ul, task, rowsComponent), task);
+            this.makeDropTarget(cell, (card) => this.dropOnDay(card, day.date, ul));
+        }
+    }
+
+    // Changes only the due date; a recurring task keeps its rule and a timed one its time
+    private dropOnDay(card: { li: HTMLElement; task: TaskListItem }, date: string, ul: HTMLElement) {
+        const { li, task } = card;
+        if (task.dueDate && dueDatePart(task.dueDate) === date) return;
+        void this.dropCard(li, task, ul, () => this.service.updateTask(task.id, undefined, {
+            dueDate: rescheduledDue(task.dueDate, date),
+            dueTimezone: task.dueTimezone,
+            dueString: task.isRecurring ? task.dueString : undefined
+        }));
+    }
+
+    private makeDraggable(li: HTMLElement, task: TaskListItem) {
+        li.draggable = true;
+        li.ondragstart = (e) => {
+            this.draggedCard = { li, task };
+            e.dataTransfer?.setData("text/plain", task.id);
+            li.addClass("is-dragging");
+        };
+        li.ondragend = () => {
+            li.removeClass("is-dragging");
+            this.draggedCard = null;
+        };
+    }
+
+    private makeDropTarget(el: HTMLElement, onDrop: (card: { li: HTMLElement; task: TaskListItem }) => void) {
+        el.ondragover = (e) => {
+            if (!this.draggedCard) return;
+            e.preventDefault();
+            el.addClass("is-drop-target");
+        };
+        el.ondragleave = (e) => {
+            if (e.relatedTarget instanceof Node && el.contains(e.relatedTarget)) return;
+            el.removeClass("is-drop-target");
+        };
+        el.ondrop = (e) => {
+            e.preventDefault();
+            el.removeClass("is-drop-target");
+            const card = this.draggedCard;
+            this.draggedCard = null;
+            if (card) onDrop(card);
+        };
+    }
+
+    // Moves the card at once and queues the change; the card goes back where it was if it is refused
+    private async dropCard(li: HTMLElement, task: TaskListItem, ul: HTMLElement, change: () => Promise<boolean>) {
+        const from = li.parentElement;
+        const next = li.nextSibling;
+        ul.appendChild(li);
+		debug('Codeblock card drop', { id: task.id });
+
+        if (this.refreshBtn && !this.refreshBtn.hasClass("obsidoist-spinning")) {
+            this.refreshBtn.addClass("obsidoist-spinning");
         }
+
+		this.suppressServiceRefresh = true;
+        if (!await change()) {
+            new Notice('Failed to move task');
+            if (from) from.insertBefore(li, next);
+
+			this.suppressServiceRefresh = false;
+            this.refreshBtn?.removeClass("obsidoist-spinning");
+            return;
+        }
+
+		await this.syncAfterChange(task.id);
+    }
+
+    // Due date, recurrence, priority, project and labels under the task text
+    private renderTaskMeta(body: HTMLElement, task: TaskListItem) {
+        const meta = body.createDiv({ cls: "obsidoist-task-meta" });
+
+        if (task.dueDate) {
+            const badge = dueBadge(task.dueDate, task.dueTimezone, Date.now());
+            const due = meta.createSpan({ cls: "obsidoist-due", text: badge.text });
+            if (badge.overdue && !task.isCompleted) due.addClass("is-overdue");
+            else if (badge.today) due.addClass("is-today");
+            if (task.isRecurring) {
+                const repeat = due.createSpan({ cls: "obsidoist-recurring", attr: { "aria-label": "Recurring" } });
+                setIcon(repeat, "repeat");
+            }
+        }
+
+        // Todoist priority 4 is shown as p1
+        const level = 5 - (task.priority ?? 1);
+        if (level < 4) {
+            const priority = meta.createSpan({ cls: `obsidoist-priority obsidoist-priority-p${level}`, attr: { "aria-label": `Priority ${level}` } });
+            setIcon(priority, "flag");
+        }
+
+        if (task.projectName) {
+            const project = meta.createSpan({ cls: "obsidoist-project" });
+            const dot = project.createSpan({ cls: "obsidoist-project-color" });
+            if (task.projectColor) dot.setCssProps({ "--obsidoist-project-color": getColorByKey(task.projectColor).hexValue });
+            project.createSpan({ text: task.projectName });
+        }
+
+        for (const label of task.labels ?? []) {
+            meta.createSpan({ cls: "obsidoist-label", text: `@${label}` });
+        }
+
+        if (!meta.hasChildNodes()) meta.remove();
     }
 }
 
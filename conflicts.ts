@@ -0,0 +1,90 @@
+import { ConflictField, LineShadow } from './localState';
+import { formatDueValue } from './dueDates';
+
+// How a field edited both in a note and in Todoist since the last sync is settled
+export type ConflictPolicy = 'local' | 'remote' | 'newest' | 'ask';
+
+export const CONFLICT_POLICY_NAMES: Record<ConflictPolicy, string> = {
+	local: 'Keep the note version',
+	remote: 'Keep the Todoist version',
+	newest: 'Keep the most recent edit',
+	ask: 'Ask every time'
+};
+
+export function isConflictPolicy(value: unknown): value is ConflictPolicy {
+	return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CONFLICT_POLICY_NAMES, value);
+}
+
+export const CONFLICT_FIELD_NAMES: Record<ConflictField, string> = {
+	content: 'Text',
+	due: 'Due',
+	priority: 'Priority',
+	labels: 'Labels',
+	description: 'Description',
+	project: 'Project'
+};
+
+const CONFLICT_FIELDS = Object.keys(CONFLICT_FIELD_NAMES) as ConflictField[];
+
+// Comparable value of one field of a line or task signature
+function fieldKey(sig: LineShadow, field: ConflictField): string {
+	switch (field) {
+		case 'content': return sig.content;
+		case 'due': return [sig.dueDate ?? '', sig.dueTimezone ?? '', sig.dueString ?? ''].join('|');
+		case 'priority': return String(sig.priority ?? 1);
+		case 'labels': return [...(sig.labels ?? [])].sort().join(',');
+		case 'description': return (sig.description ?? '').trim();
+		case 'project': return `${sig.projectId ?? ''}|${sig.sectionId ?? ''}`;
+	}
+}
+
+export function changedFields(from: LineShadow, to: LineShadow): ConflictField[] {
+	return CONFLICT_FIELDS.filter(field => fieldKey(from, field) !== fieldKey(to, field));
+}
+
+/** Fields changed differently on both sides since `base`; a field changed to the same value on both is no conflict. */
+export function findConflicts(base: LineShadow, local: LineShadow, remote: LineShadow): ConflictField[] {
+	const remoteChanges = changedFields(base, remote);
+	return changedFields(base, local).filter(field => remoteChanges.includes(field) && fieldKey(local, field) !== fieldKey(remote, field));
+}
+
+/** A copy of `target` with the given fields taken from `source`. */
+export function copyFields(target: LineShadow, source: LineShadow, fields: ConflictField[]): LineShadow {
+	const result = { ...target };
+	for (const field of fields) {
+		switch (field) {
+			case 'content': result.content = source.content; break;
+			case 'due':
+				result.dueDate = source.dueDate;
+				result.dueTimezone = source.dueTimezone;
+				result.dueString = source.dueString;
+				break;
+			case 'priority': result.priority = source.priority; break;
+			case 'labels': result.labels = source.labels; break;
+			case 'description': result.description = source.description; break;
+			case 'project':
+				result.projectId = source.projectId;
+				result.sectionId = source.sectionId;
+				break;
+		}
+	}
+	return result;
+}
+
+// `nameOf` gives the name of a project or section ID
+export function formatFieldValue(sig: LineShadow, field: ConflictField, nameOf: (id: string) => string | undefined): string {
+	switch (field) {
+		case 'content': return sig.content;
+		case 'due': {
+			const parts = [sig.dueDate ? formatDueValue(sig.dueDate, sig.dueTimezone) : '', sig.dueString ?? ''].filter(Boolean);
+			return parts.join(' · ') || '—';
+		}
+		case 'priority': return `p${5 - (sig.priority ?? 1)}`;
+		case 'labels': return (sig.labels ?? []).join(', ') || '—';
+		case 'description': return (sig.description ?? '').trim() || '—';
+		case 'project': {
+			const parts = [sig.projectId, sig.sectionId].filter((id): id is string => Boolean(id)).map(id => nameOf(id) ?? id);
+			return parts.join(' / ') || '—';
+		}
+	}
+}
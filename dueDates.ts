@@ -0,0 +1,99 @@
+// Due values are kept as Todoist shows them to the user:
+//   'YYYY-MM-DD'         all-day
+//   'YYYY-MM-DDTHH:MM'   wall-clock time, floating or in `timezone` when one is set
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+export function hasDueTime(dueDate: string | undefined): boolean {
+	return Boolean(dueDate && dueDate.includes('T'));
+}
+
+export function dueDatePart(dueDate: string): string {
+	return dueDate.slice(0, 10);
+}
+
+// Wall-clock 'YYYY-MM-DDTHH:MM' of an instant in a time zone (the system zone when omitted)
+function wallTimeAt(instant: number, timezone?: string): string | undefined {
+	try {
+		const parts = new Intl.DateTimeFormat('en-US', {
+			timeZone: timezone,
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			hourCycle: 'h23'
+		}).formatToParts(new Date(instant));
+		const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+		return `${get('year')}-${get('month')}-${get('day')}T${get('hour')}:${get('minute')}`;
+	} catch {
+		return undefined;
+	}
+}
+
+function wallTimeToEpoch(wallTime: string): number {
+	const [date, time] = wallTime.split('T');
+	const [y, m, d] = date.split('-').map(Number);
+	const [h, mi] = time.split(':').map(Number);
+	return Date.UTC(y, m - 1, d, h, mi);
+}
+
+/**
+ * Converts a Todoist due date/datetime into the local representation.
+ * Fixed-timezone datetimes arrive in UTC and are shown in their own time zone.
+ */
+export function fromTodoistDue(raw: string, timezone?: string): string {
+	if (DATE_ONLY.test(raw)) return raw;
+	const m = raw.match(DATE_TIME);
+	if (!m) return raw.slice(0, 10);
+	if (!m[4]) return `${m[1]}T${m[2]}:${m[3]}`;
+	const instant = Date.parse(raw);
+	if (!Number.isFinite(instant)) return raw.slice(0, 10);
+	return wallTimeAt(instant, timezone) ?? raw.slice(0, 10);
+}
+
+/** Builds the Sync API `due` argument for a local due value. */
+export function toSyncApiDue(dueDate: string, timezone?: string): Record<string, unknown> {
+	if (!hasDueTime(dueDate)) return { date: dueDate };
+	if (!timezone) return { date: `${dueDate}:00` };
+
+	// Todoist expects fixed-timezone datetimes in UTC; resolve the zone offset at that wall time
+	const target = wallTimeToEpoch(dueDate);
+	let utc = target;
+	for (let i = 0; i < 2; i++) {
+		const wall = wallTimeAt(utc, timezone);
+		if (!wall) return { date: `${dueDate}:00` };
+		utc += target - wallTimeToEpoch(wall);
+	}
+	return { date: new Date(utc).toISOString().replace(/\.\d{3}Z$/, 'Z'), timezone };
+}
+
+/** Formats a due value for a Markdown marker, e.g. `2026-01-16 14:30 Europe/Berlin`. */
+export function formatDueValue(dueDate: string, timezone?: string): string {
+	const value = dueDate.replace('T', ' ');
+	return timezone && hasDueTime(dueDate) ? `${value} ${timezone}` : value;
+}
+
+/** Normalizes a parsed `YYYY-MM-DD` + optional `H:MM` into a local due value. */
+export function toDueValue(date: string, time?: string): string {
+	if (!time) return date;
+	const [h, m] = time.split(':');
+	return `${date}T${h.padStart(2, '0')}:${m}`;
+}
+
+/** Today's date in the system time zone, as 'YYYY-MM-DD'. */
+export function todayDueValue(): string {
+	return (wallTimeAt(Date.now()) ?? new Date().toISOString()).slice(0, 10);
+}
+
+/** The wall-clock due value of an instant, in `timezone` or the system zone. */
+export function dueValueAt(instant: number, timezone?: string): string {
+	return wallTimeAt(instant, timezone) ?? new Date(instant).toISOString().slice(0, 16);
+}
+
+/** A 'YYYY-MM-DD' date moved by a number of days. */
+export function shiftDate(date: string, days: number): string {
+	const [y, m, d] = date.split('-').map(Number);
+	return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
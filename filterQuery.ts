@@ -0,0 +1,275 @@
+import { LocalTaskRecord } from './localState';
+import { ProjectNode, SectionNode, projectTagSegment } from './projectTags';
+import { dueDatePart, dueValueAt, hasDueTime, shiftDate } from './dueDates';
+
+// Evaluates Todoist filter queries against the task cache, so filtered code blocks work offline.
+// Understood terms: today, tomorrow, yesterday, overdue (od), no date, N days (next N days),
+// due: / due before: / due after: a date (YYYY-MM-DD, today, tomorrow, yesterday), #Project,
+// ##Project (with its subprojects), /Section, @label, no labels, p1-p4, recurring, subtask and
+// search: text. Names may use * as a wildcard. Terms combine with &, |, ! and parentheses, and
+// ',' separates lists. A list using anything else is answered with Todoist's own results instead.
+
+export interface FilterContext {
+	// Current time (epoch ms); overdue and relative dates are taken from it
+	now: number;
+	projects: ProjectNode[];
+	sections: SectionNode[];
+}
+
+type TermTest = (task: LocalTaskRecord, ctx: FilterContext) => boolean;
+
+type FilterNode =
+	| { kind: 'and' | 'or'; left: FilterNode; right: FilterNode }
+	| { kind: 'not'; operand: FilterNode }
+	| { kind: 'term'; test: TermTest };
+
+export interface FilterList {
+	// The list as written; also the key of its results fetched from Todoist
+	source: string;
+	// Terms that cannot be evaluated locally, or the whole list when it does not parse
+	unsupported: string[];
+	node?: FilterNode;
+}
+
+type Token = { op: '&' | '|' | '!' | '(' | ')' } | { term: string };
+
+function tokenize(source: string): Token[] {
+	const tokens: Token[] = [];
+	let term = '';
+	const flush = () => {
+		if (term.trim()) tokens.push({ term: term.trim() });
+		term = '';
+	};
+	for (let i = 0; i < source.length; i++) {
+		const ch = source[i];
+		// A backslash keeps an operator character or a comma in a name, as in #Home \& Garden
+		if (ch === '\\' && i + 1 < source.length) {
+			term += source[++i];
+		} else if (ch === '&' || ch === '|' || ch === '!' || ch === '(' || ch === ')') {
+			flush();
+			tokens.push({ op: ch });
+		} else {
+			term += ch;
+		}
+	}
+	flush();
+	return tokens;
+}
+
+// Whole-name match, ignoring case, spacing and characters tags cannot hold; '*' matches any run of characters
+function namePattern(pattern: string): (name: string) => boolean {
+	const p = pattern.trim().normalize('NFC').toLowerCase();
+	if (!p.includes('*')) {
+		const key = projectTagSegment(p);
+		return name => projectTagSegment(name.normalize('NFC').toLowerCase()) === key;
+	}
+	const regex = new RegExp(`^${p.split('*').map(x => x.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'u');
+	return name => regex.test(name.trim().normalize('NFC').toLowerCase());
+}
+
+function today(ctx: FilterContext): string {
+	return dueValueAt(ctx.now).slice(0, 10);
+}
+
+// A date as written after due: and friends, relative to today
+function resolveDate(text: string, ctx: FilterContext): string | undefined {
+	const value = text.trim().toLowerCase();
+	if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+	const offset = ({ yesterday: -1, today: 0, tomorrow: 1 } as Record<string, number | undefined>)[value];
+	return offset === undefined ? undefined : shiftDate(today(ctx), offset);
+}
+
+function isOverdue(task: LocalTaskRecord, ctx: FilterContext): boolean {
+	if (!task.dueDate) return false;
+	if (hasDueTime(task.dueDate)) return task.dueDate < dueValueAt(ctx.now, task.dueTimezone);
+	return task.dueDate < today(ctx);
+}
+
+function projectIds(ctx: FilterContext, pattern: string, withSubprojects: boolean): Set<string> {
+	const matches = namePattern(pattern);
+	const ids = new Set(ctx.projects.filter(p => matches(p.name)).map(p => p.id));
+	if (!withSubprojects) return ids;
+	const parentOf = new Map(ctx.projects.map(p => [p.id, p.parentId ?? undefined]));
+	const result = new Set(ids);
+	for (const project of ctx.projects) {
+		const seen = new Set<string>();
+		for (let id: string | undefined = project.id; id && !seen.has(id); id = parentOf.get(id)) {
+			seen.add(id);
+			if (ids.has(id)) {
+				result.add(project.id);
+				break;
+			}
+		}
+	}
+	return result;
+}
+
+/** The test for one filter term, or undefined when it can only be evaluated by Todoist. */
+function compileTerm(text: string): TermTest | undefined {
+	const term = text.trim().replace(/\s+/g, ' ');
+	const lower = term.toLowerCase();
+	const dueOn = (offset: number): TermTest => (task, ctx) => Boolean(task.dueDate) && dueDatePart(task.dueDate ?? '') === shiftDate(today(ctx), offset);
+
+	if (lower === 'today') return dueOn(0);
+	if (lower === 'tomorrow') return dueOn(1);
+	if (lower === 'yesterday') return dueOn(-1);
+	if (lower === 'overdue' || lower === 'od') return isOverdue;
+	if (lower === 'no date' || lower === 'no due date') return task => !task.dueDate;
+	if (lower === 'no labels' || lower === 'no label') return task => (task.labels ?? []).length === 0;
+	if (lower === 'recurring') return task => task.isRecurring === true;
+	if (lower === 'subtask') return task => Boolean(task.parentId);
+
+	const days = lower.match(/^(?:next )?(\d+) days?$/);
+	if (days) {
+		const count = Number(days[1]);
+		return (task, ctx) => {
+			if (!task.dueDate) return false;
+			const date = dueDatePart(task.dueDate);
+			return date >= today(ctx) && date < shiftDate(today(ctx), count);
+		};
+	}
+
+	const due = lower.match(/^(?:due|date) ?(before|after)? ?: ?(.+)$/);
+	if (due) {
+		const [, relation, value] = due;
+		// Checked with today's date at evaluation time, as relative dates move
+		return (task, ctx) => {
+			const date = resolveDate(value, ctx);
+			if (!date || !task.dueDate) return false;
+			const taskDate = dueDatePart(task.dueDate);
+			return relation === 'before' ? taskDate < date : relation === 'after' ? taskDate > date : taskDate === date;
+		};
+	}
+
+	const priority = lower.match(/^p([1-4])$/);
+	if (priority) {
+		const value = 5 - Number(priority[1]);
+		return task => (task.priority ?? 1) === value;
+	}
+
+	const search = term.match(/^search ?: ?(.+)$/i);
+	if (search) {
+		const needle = search[1].toLowerCase();
+		return task => task.content.toLowerCase().includes(needle);
+	}
+
+	if (term.startsWith('##') && term.length > 2) {
+		const name = term.slice(2);
+		return (task, ctx) => Boolean(task.projectId) && projectIds(ctx, name, true).has(task.projectId ?? '');
+	}
+	if (term.startsWith('#') && term.length > 1) {
+		const name = term.slice(1);
+		return (task, ctx) => Boolean(task.projectId) && projectIds(ctx, name, false).has(task.projectId ?? '');
+	}
+	if (term.startsWith('/') && term.length > 1) {
+		const matches = namePattern(term.slice(1));
+		return (task, ctx) => Boolean(task.sectionId) && ctx.sections.some(s => s.id === task.sectionId && matches(s.name));
+	}
+	if (term.startsWith('@') && term.length > 1) {
+		const matches = namePattern(term.slice(1));
+		return task => (task.labels ?? []).some(matches);
+	}
+	return undefined;
+}
+
+// Recursive descent: '|' binds loosest, then '&', then '!'
+function parseList(source: string): FilterList {
+	const tokens = tokenize(source);
+	const unsupported: string[] = [];
+	let pos = 0;
+	const fail = (): never => {
+		throw new Error(`Cannot parse filter "${source}"`);
+	};
+	const isOp = (op: string) => {
+		const token = tokens[pos];
+		return Boolean(token) && 'op' in token && token.op === op;
+	};
+
+	const parseOr = (): FilterNode => {
+		let node = parseAnd();
+		while (isOp('|')) {
+			pos++;
+			node = { kind: 'or', left: node, right: parseAnd() };
+		}
+		return node;
+	};
+	const parseAnd = (): FilterNode => {
+		let node = parseUnary();
+		while (isOp('&')) {
+			pos++;
+			node = { kind: 'and', left: node, right: parseUnary() };
+		}
+		return node;
+	};
+	const parseUnary = (): FilterNode => {
+		const token = tokens[pos++];
+		if (!token) return fail();
+		if ('term' in token) {
+			const test = compileTerm(token.term);
+			if (!test) unsupported.push(token.term);
+			return { kind: 'term', test: test ?? (() => false) };
+		}
+		if (token.op === '!') return { kind: 'not', operand: parseUnary() };
+		if (token.op !== '(') return fail();
+		const node = parseOr();
+		if (!isOp(')')) return fail();
+		pos++;
+		return node;
+	};
+
+	try {
+		const node = parseOr();
+		if (pos < tokens.length) fail();
+		return { source, unsupported, node: unsupported.length === 0 ? node : undefined };
+	} catch {
+		return { source, unsupported: [source] };
+	}
+}
+
+// Splits on commas not escaped with a backslash; escapes are kept for the tokenizer
+function splitLists(filter: string): string[] {
+	const lists: string[] = [];
+	let list = '';
+	for (let i = 0; i < filter.length; i++) {
+		const ch = filter[i];
+		if (ch === '\\' && i + 1 < filter.length) {
+			list += ch + filter[++i];
+		} else if (ch === ',') {
+			lists.push(list);
+			list = '';
+		} else {
+			list += ch;
+		}
+	}
+	lists.push(list);
+	return lists;
+}
+
+/** Splits a filter into its ','-separated lists and parses each one. */
+export function parseFilter(filter: string): FilterList[] {
+	return splitLists(filter).map(x => x.trim()).filter(Boolean).map(parseList);
+}
+
+function evaluate(node: FilterNode, task: LocalTaskRecord, ctx: FilterContext): boolean {
+	switch (node.kind) {
+		case 'and': return evaluate(node.left, task, ctx) && evaluate(node.right, task, ctx);
+		case 'or': return evaluate(node.left, task, ctx) || evaluate(node.right, task, ctx);
+		case 'not': return !evaluate(node.operand, task, ctx);
+		case 'term': return node.test(task, ctx);
+	}
+}
+
+/**
+ * Open tasks matching a list that parsed without unsupported terms, ordered as Todoist lists them
+ * in a filter view: by due date (undated last), then by priority.
+ */
+export function evaluateFilterList(list: FilterList, tasks: LocalTaskRecord[], ctx: FilterContext): LocalTaskRecord[] {
+	const node = list.node;
+	if (!node) return [];
+	return tasks
+		.filter(task => !task.isCompleted && !task.isDeleted && evaluate(node, task, ctx))
+		.sort((a, b) => {
+			if ((a.dueDate ?? '') !== (b.dueDate ?? '')) return !a.dueDate ? 1 : !b.dueDate ? -1 : a.dueDate.localeCompare(b.dueDate ?? '');
+			return (b.priority ?? 1) - (a.priority ?? 1);
+		});
+}
@@ -0,0 +1,223 @@
+import { TaskId } from './localState';
+import { TASK_PREFIX_REGEX } from './markdownScan';
+import { TASK_ID_CODECS, TaskIdFormat, findTaskId, removeTaskId } from './taskIdCodec';
+
+// How task metadata is written on a Markdown line:
+//   obsidoist  - [ ] Task ⏫ 🗓 2026-01-16 #todoist #Project [todoist_id:123]
+//   tasks      - [ ] Task #todoist #Project [todoist_id:123] ⏫ 📅 2026-01-16 ✅ 2026-01-17
+//   dataview   - [ ] Task #todoist [todoist_id:123] [priority:: high] [due:: 2026-01-16] [project:: Project] [section:: Section]
+// The tag formats write a section into the project tag (#Project/Section) and also read a §Section marker.
+// The Tasks plugin only reads its emoji fields at the end of a line, so they follow the ID there.
+// The ID is shown in its bracket form; taskIdCodec.ts lists the others. A block ID always ends the line.
+export type LineFormat = 'obsidoist' | 'tasks' | 'dataview';
+
+export const LINE_FORMAT_NAMES: Record<LineFormat, string> = {
+	obsidoist: 'Obsidoist (🗓 due date)',
+	tasks: 'Tasks plugin (📅 due date, ✅ done date)',
+	dataview: 'Dataview inline fields ([due:: date])'
+};
+
+// Frontmatter key that picks the format of a single note
+export const LINE_FORMAT_FRONTMATTER_KEY = 'obsidoist-format';
+
+export function isLineFormat(value: unknown): value is LineFormat {
+	return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LINE_FORMAT_NAMES, value);
+}
+
+export interface TaskLineParts {
+	status: string;
+	content: string;
+	priorityMarker?: string;
+	recurrence?: string;
+	// Due value as written on the line, e.g. '2026-01-16 14:30'
+	due?: string;
+	dueTimezone?: string;
+	project?: string;
+	// Dataview only; the tag formats carry the section in `project`
+	section?: string;
+	// Sync tag and label tags, each with its '#'
+	tags: string[];
+	id: TaskId;
+	idFormat?: TaskIdFormat;
+	// 'YYYY-MM-DD' completion date; not written by the Obsidoist format
+	doneDate?: string;
+}
+
+// Tasks-plugin fields that are not synced: scheduled, start, created, cancelled, id, depends on, on completion
+const PRESERVED_REGEX = /(?:⏳|⌛|🛫|➕|❌)️?\s*\d{4}-\d{2}-\d{2}|🆔\s*[\w-]+|⛔️?\s*[\w-]+(?:\s*,\s*[\w-]+)*|🏁\s*\w+/gu;
+const DONE_REGEX = /\s*✅️?\s*(\d{4}-\d{2}-\d{2})/u;
+// First Tasks-plugin field on a line; the ID goes in front of it
+const FIRST_FIELD_REGEX = /\s(?:🔺|⏫|🔼|🔽|⏬|🔁|📅|🗓|⏳|⌛|🛫|➕|✅|❌|🆔|⛔|🏁)/u;
+
+// Dataview inline fields: [key:: value] or (key:: value)
+const INLINE_FIELD_REGEX = /\s*[[(]([\w-]+)::\s*([^\])]*?)\s*[\])]/gu;
+const FIRST_INLINE_FIELD_REGEX = /\s[[(][\w-]+::/u;
+
+/** Reads the Dataview inline fields of a line, keyed by lower-cased field name. */
+export function readInlineFields(line: string): Record<string, string> {
+	const fields: Record<string, string> = {};
+	for (const m of line.matchAll(INLINE_FIELD_REGEX)) {
+		const key = m[1].toLowerCase();
+		if (!(key in fields)) fields[key] = m[2];
+	}
+	return fields;
+}
+
+// A synced field of a task line; which fields a format stores as tokens vs. inline fields differs
+export type FieldSlot = 'priority' | 'recurrence' | 'due' | 'timezone' | 'project' | 'section' | 'done';
+
+export interface FieldSpan {
+	// Fields without a slot are kept on the line but never synced
+	slot?: FieldSlot;
+	start: number;
+	end: number;
+}
+
+// Inline fields Obsidoist reads and writes itself; other fields are preserved
+const INLINE_FIELD_SLOTS: Record<string, FieldSlot> = {
+	due: 'due',
+	timezone: 'timezone',
+	repeat: 'recurrence',
+	priority: 'priority',
+	project: 'project',
+	section: 'section',
+	completion: 'done'
+};
+
+/** Renders one field the way a format writes it; `due` values carry their time zone outside Dataview. */
+export function renderField(format: LineFormat, slot: FieldSlot, value: string): string {
+	if (format === 'dataview') {
+		const key = slot === 'recurrence' ? 'repeat' : slot === 'done' ? 'completion' : slot;
+		return `[${key}:: ${slot === 'due' ? value.replace(' ', 'T') : value}]`;
+	}
+	switch (slot) {
+		case 'recurrence': return `🔁 ${value}`;
+		case 'due': return `${format === 'tasks' ? '📅' : '🗓'} ${value}`;
+		case 'project': return `#${value.replace(/\s+/g, '')}`;
+		case 'section': return `§${value.replace(/\s+/g, '')}`;
+		case 'done': return `✅ ${value}`;
+		default: return value;
+	}
+}
+
+export function renderTaskLineBody(format: LineFormat, parts: TaskLineParts): string {
+	const blockId = parts.idFormat === 'blockId';
+	const id = blockId ? undefined : TASK_ID_CODECS[parts.idFormat ?? 'bracket'].render(parts.id);
+	const field = (slot: FieldSlot, value: string | undefined) => (value ? renderField(format, slot, value) : undefined);
+	const due = parts.due && parts.dueTimezone && format !== 'dataview' ? `${parts.due} ${parts.dueTimezone}` : parts.due;
+	const priority = field('priority', parts.priorityMarker);
+	const recurrence = field('recurrence', parts.recurrence);
+	const project = field('project', parts.project);
+	const done = format === 'obsidoist' ? undefined : field('done', parts.doneDate);
+	let fields: (string | undefined)[];
+	if (format === 'dataview') {
+		const timezone = parts.due ? field('timezone', parts.dueTimezone) : undefined;
+		fields = [parts.content, ...parts.tags, id, priority, recurrence, field('due', due), timezone, project, field('section', parts.section), done];
+	} else if (format === 'tasks') {
+		fields = [parts.content, parts.tags[0], project, ...parts.tags.slice(1), id, priority, recurrence, field('due', due), done];
+	} else {
+		fields = [parts.content, priority, recurrence, field('due', due), parts.tags[0], project, ...parts.tags.slice(1), id];
+	}
+	if (blockId) fields.push(TASK_ID_CODECS.blockId.render(parts.id));
+	return `- [${parts.status}] ${fields.filter(Boolean).join(' ')}`.replace(/\s+/g, ' ');
+}
+
+/** Spans of the format-specific fields on a line (Tasks emoji fields, Dataview inline fields). */
+export function formatFieldSpans(format: LineFormat, line: string): FieldSpan[] {
+	const span = (m: RegExpMatchArray, slot?: FieldSlot): FieldSpan => {
+		const start = (m.index ?? 0) + (m[0].length - m[0].trimStart().length);
+		return { slot, start, end: (m.index ?? 0) + m[0].trimEnd().length };
+	};
+	if (format === 'dataview') {
+		const slotOf = (key: string) => (Object.prototype.hasOwnProperty.call(INLINE_FIELD_SLOTS, key) ? INLINE_FIELD_SLOTS[key] : undefined);
+		return Array.from(line.matchAll(INLINE_FIELD_REGEX), m => span(m, slotOf(m[1].toLowerCase())));
+	}
+	if (format !== 'tasks') return [];
+	return [
+		...Array.from(line.matchAll(PRESERVED_REGEX), m => span(m)),
+		...Array.from(line.matchAll(new RegExp(DONE_REGEX.source, 'gu')), m => span(m, 'done'))
+	];
+}
+
+export interface LineEdit {
+	start: number;
+	end: number;
+	text: string;
+}
+
+/**
+ * Applies edits given in reading order. Edits at the same position keep that order,
+ * and a removal ending where an insertion starts is applied first.
+ */
+export function applyLineEdits(line: string, edits: LineEdit[]): string {
+	const ordered = edits
+		.map((edit, seq) => ({ edit, seq }))
+		.sort((a, b) => b.edit.start - a.edit.start
+			|| Number(b.edit.end > b.edit.start) - Number(a.edit.end > a.edit.start)
+			|| b.seq - a.seq);
+	let result = line;
+	for (const { edit } of ordered) result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+	return result;
+}
+
+/** An edit that removes a span together with the whitespace separating it from its neighbour. */
+export function removalEdit(line: string, start: number, end: number): LineEdit {
+	if (start > 0 && /[ \t]/.test(line[start - 1])) {
+		while (start > 0 && /[ \t]/.test(line[start - 1])) start--;
+	} else {
+		while (end < line.length && /[ \t]/.test(line[end])) end++;
+	}
+	return { start, end, text: '' };
+}
+
+export function extractDoneDate(format: LineFormat, line: string): string | undefined {
+	if (format === 'dataview') return readInlineFields(line).completion?.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+	return line.match(DONE_REGEX)?.[1];
+}
+
+/** Adds or removes the done date of a line; the Obsidoist format does not record one. */
+export function setDoneDate(format: LineFormat, line: string, doneDate: string | undefined): string {
+	if (format === 'obsidoist') return line;
+	const current = extractDoneDate(format, line);
+	if (!doneDate) {
+		if (!current) return line;
+		return format === 'dataview'
+			? line.replace(INLINE_FIELD_REGEX, (m: string, key: string) => (key.toLowerCase() === 'completion' ? '' : m))
+			: line.replace(DONE_REGEX, '');
+	}
+	if (current) return line;
+	return `${line.trimEnd()} ${format === 'dataview' ? `[completion:: ${doneDate}]` : `✅ ${doneDate}`}`;
+}
+
+/**
+ * Adds the ID to a newly created task line. A block ID goes at the end of the line, unless the
+ * line already ends with a block ID of its own; the ID is then stored in an HTML comment instead.
+ */
+export function appendTaskId(format: LineFormat, line: string, id: TaskId, idFormat: TaskIdFormat = 'bracket'): string {
+	if (idFormat === 'blockId') {
+		if (!/\s\^[\w-]+\s*$/.test(line)) return `${line.trimEnd()} ${TASK_ID_CODECS.blockId.render(id)}`;
+		idFormat = 'comment';
+	}
+	const tag = ` ${TASK_ID_CODECS[idFormat].render(id)}`;
+	if (format === 'obsidoist') return `${line}${tag}`;
+	const body = line.replace(TASK_PREFIX_REGEX, '');
+	const match = body.match(format === 'dataview' ? FIRST_INLINE_FIELD_REGEX : FIRST_FIELD_REGEX);
+	if (!match || match.index === undefined) return `${line.trimEnd()}${tag}`;
+	const at = line.length - body.length + match.index;
+	return `${line.slice(0, at)}${tag}${line.slice(at)}`;
+}
+
+/** Rewrites the ID of a line in another storage format; an ID already in that format is left alone. */
+export function convertTaskId(format: LineFormat, line: string, idFormat: TaskIdFormat): string {
+	const found = findTaskId(line);
+	if (!found || found.format === idFormat) return line;
+	// As when adding an ID, a line ending with its own block ID takes the comment instead
+	const target = idFormat === 'blockId' && /\s\^[\w-]+\s*$/.test(line) ? 'comment' : idFormat;
+	if (found.format === target) return line;
+	if (found.format !== 'blockId' && target !== 'blockId') {
+		return line.slice(0, found.start) + TASK_ID_CODECS[target].render(found.id) + line.slice(found.end);
+	}
+	const rest = removeTaskId(line);
+	const trimmed = found.start > 0 && /\s/.test(line[found.start - 1]) ? rest.slice(0, found.start - 1) + rest.slice(found.start) : rest;
+	return appendTaskId(format, trimmed.trimEnd(), found.id, target);
+}
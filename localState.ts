@@ -20,7 +20,14 @@ export type SyncOperation =
           localId: TaskId;
           content: string;
           projectId?: string;
+          sectionId?: string;
+          parentId?: TaskId;
           dueDate?: string;
+          dueTimezone?: string;
+          dueString?: string;
+          priority?: number;
+          labels?: string[];
+          description?: string;
           isCompleted?: boolean;
           queuedAt: number;
           attempts: number;
@@ -31,8 +38,15 @@ export type SyncOperation =
           type: 'update';
           opId: string;
           id: TaskId;
-          content: string;
-          dueDate?: string;
+          // undefined leaves the text untouched
+          content?: string;
+          // undefined leaves the due date untouched, null removes it
+          dueDate?: string | null;
+          dueTimezone?: string;
+          dueString?: string;
+          priority?: number;
+          labels?: string[];
+          description?: string;
           queuedAt: number;
           attempts: number;
           nextRetryAt?: number;
@@ -42,29 +56,123 @@ export type SyncOperation =
           type: 'move';
           opId: string;
           id: TaskId;
-          projectId: string;
+          projectId?: string;
+          sectionId?: string;
+          parentId?: TaskId;
           queuedAt: number;
           attempts: number;
           nextRetryAt?: number;
           lastError?: string;
       }
-    | { type: 'close'; opId: string; id: TaskId; queuedAt: number; attempts: number; nextRetryAt?: number; lastError?: string }
-    | { type: 'reopen'; opId: string; id: TaskId; queuedAt: number; attempts: number; nextRetryAt?: number; lastError?: string };
+    // A project named by an unknown tag; tasks refer to it by `localId` until Todoist assigns its ID
+    | { type: 'createProject'; opId: string; localId: string; name: string; parentId?: string; queuedAt: number; attempts: number; nextRetryAt?: number; lastError?: string }
+    // recurring: completes one occurrence; Todoist moves the task to its next date instead of closing it
+    | { type: 'close'; opId: string; id: TaskId; recurring?: boolean; queuedAt: number; attempts: number; nextRetryAt?: number; lastError?: string }
+    | { type: 'reopen'; opId: string; id: TaskId; queuedAt: number; attempts: number; nextRetryAt?: number; lastError?: string }
+    | { type: 'delete'; opId: string; id: TaskId; queuedAt: number; attempts: number; nextRetryAt?: number; lastError?: string };
 
 export interface LocalTaskRecord {
     id: TaskId;
     content: string;
     isCompleted: boolean;
     projectId?: string;
+    sectionId?: string;
+    parentId?: TaskId;
     dueDate?: string;
+    dueTimezone?: string;
+    priority?: number;
+    labels?: string[];
+    description?: string;
 	isRecurring?: boolean;
+	// Recurrence rule as written in Todoist, e.g. 'every monday'
+	dueString?: string;
 	isDeleted?: boolean;
+	// Created from a note by this plugin; kept once Todoist has assigned the real ID
+	createdByPlugin?: boolean;
+	// When Todoist last reported a change to the task
+	remoteUpdatedAt?: number;
+	// When the task was created (epoch ms)
+	createdAt?: number;
+	// Position among its siblings in Todoist
+	order?: number;
     source: 'remote' | 'local';
     updatedAt: number;
     lastRemoteSeenAt?: number;
 }
 
+export interface LineShadow {
+    content: string;
+    isCompleted: boolean;
+    projectId?: string;
+    sectionId?: string;
+    parentId?: TaskId;
+    dueDate?: string;
+    dueTimezone?: string;
+    // Raw due text from the line (`due:` or `🔁`), kept apart from the resolved date
+    dueString?: string;
+    priority?: number;
+    labels?: string[];
+    description?: string;
+}
+
+/** Optional task fields carried by create/update operations. */
+export interface TaskFields {
+    // 'YYYY-MM-DD' or 'YYYY-MM-DDTHH:MM'; null clears the due date on update
+    dueDate?: string | null;
+    dueTimezone?: string;
+    // Natural-language due text for Todoist to parse, e.g. 'next friday' or 'every weekday'
+    dueString?: string;
+    priority?: number;
+    labels?: string[];
+    description?: string;
+    // Todoist section of a new task; its project takes precedence over the one passed in
+    sectionId?: string;
+}
+
+// A task line in a note; `line` is 0-based and `id` is written as on the line (possibly a local ID)
+export interface TaskLocation {
+    id: TaskId;
+    line: number;
+}
+
+// Task fields compared when a line and its Todoist task both changed since the last sync
+export type ConflictField = 'content' | 'due' | 'priority' | 'labels' | 'description' | 'project';
+
+export interface TaskConflict {
+    path: string;
+    fields: ConflictField[];
+    // The shadow both sides started from, the line as edited, and the task as edited in Todoist
+    base: LineShadow;
+    local: LineShadow;
+    remote: LineShadow;
+    detectedAt: number;
+}
+
+export interface PendingRemoval {
+    path: string;
+    removedAt: number;
+    // The whole note was deleted; confirmed against a fresh read of the vault before the policy applies
+    fileRemoved?: boolean;
+}
+
 export interface LocalProjectRecord {
+    id: string;
+    name: string;
+    parentId?: string;
+	// Todoist color key, e.g. 'berry_red'
+	color?: string;
+    updatedAt: number;
+}
+
+export interface LocalSectionRecord {
+    id: string;
+    name: string;
+    projectId: string;
+    order?: number;
+    updatedAt: number;
+}
+
+export interface LocalLabelRecord {
     id: string;
     name: string;
     updatedAt: number;
@@ -74,16 +182,31 @@ export interface ObsidoistLocalState {
     schemaVersion: 2;
     tasksById: Record<TaskId, LocalTaskRecord>;
     projectsById: Record<string, LocalProjectRecord>;
+    sectionsById: Record<string, LocalSectionRecord>;
+    labelsById: Record<string, LocalLabelRecord>;
     idAliasMap: Record<TaskId, TaskId>;
     filterResults: Record<string, TaskId[]>;
     filterLastUsedAt: Record<string, number>;
     queue: SyncOperation[];
     status: SyncStatus;
-	lineShadowById: Record<TaskId, { content: string; isCompleted: boolean; projectId?: string; dueDate?: string }>;
+	lineShadowById: Record<TaskId, LineShadow>;
+	// Task lines of each note, keyed by vault path
+	taskLinesByPath: Record<string, TaskLocation[]>;
+	// Tasks whose line disappeared from a note, waiting out the grace window before the removal policy applies
+	pendingRemovals: Record<TaskId, PendingRemoval>;
+	// Tasks edited both in a note and in Todoist, waiting for the user to pick a side
+	conflictsById: Record<TaskId, TaskConflict>;
 
     syncToken?: string;
     lastFullSyncAt?: number;
     lastProjectsSyncAt?: number;
+    lastLabelsSyncAt?: number;
+    // Set once projects were loaded with their parents, so nested project tags resolve
+    lastProjectTreeSyncAt?: number;
+    lastSectionsSyncAt?: number;
+	lastVaultIndexAt?: number;
+	// Set once tasks were loaded in full with their priority, labels and description
+	lastItemFieldsSyncAt?: number;
 }
 
 export function createDefaultLocalState(): ObsidoistLocalState {
@@ -91,12 +214,17 @@ export function createDefaultLocalState(): ObsidoistLocalState {
         schemaVersion: 2,
         tasksById: {},
         projectsById: {},
+        sectionsById: {},
+        labelsById: {},
         idAliasMap: {},
         filterResults: {},
         filterLastUsedAt: {},
         queue: [],
         status: {},
-		lineShadowById: {}
+		lineShadowById: {},
+		taskLinesByPath: {},
+		pendingRemovals: {},
+		conflictsById: {}
     };
 }
 
@@ -142,6 +270,23 @@ export function migrateLocalState(raw: unknown): ObsidoistLocalState {
         if (!isRecord(shadow)) {
             (s as unknown as { lineShadowById: ObsidoistLocalState['lineShadowById'] }).lineShadowById = {};
         }
+        if (!isRecord((s as unknown as { sectionsById?: unknown }).sectionsById)) {
+            (s as unknown as { sectionsById: ObsidoistLocalState['sectionsById'] }).sectionsById = {};
+            s.lastSectionsSyncAt = undefined;
+        }
+        if (!isRecord((s as unknown as { labelsById?: unknown }).labelsById)) {
+            (s as unknown as { labelsById: ObsidoistLocalState['labelsById'] }).labelsById = {};
+        }
+		if (!isRecord((s as unknown as { taskLinesByPath?: unknown }).taskLinesByPath)) {
+			(s as unknown as { taskLinesByPath: ObsidoistLocalState['taskLinesByPath'] }).taskLinesByPath = {};
+			s.lastVaultIndexAt = undefined;
+		}
+		if (!isRecord((s as unknown as { pendingRemovals?: unknown }).pendingRemovals)) {
+			(s as unknown as { pendingRemovals: ObsidoistLocalState['pendingRemovals'] }).pendingRemovals = {};
+		}
+		if (!isRecord((s as unknown as { conflictsById?: unknown }).conflictsById)) {
+			(s as unknown as { conflictsById: ObsidoistLocalState['conflictsById'] }).conflictsById = {};
+		}
         return s;
     }
 
@@ -161,7 +306,14 @@ export function migrateLocalState(raw: unknown): ObsidoistLocalState {
                     localId: typeof op.localId === 'string' ? op.localId : (typeof op.id === 'string' ? op.id : ''),
                     content: typeof op.content === 'string' ? op.content : '',
                     projectId: typeof op.projectId === 'string' ? op.projectId : undefined,
+                    sectionId: typeof op.sectionId === 'string' ? op.sectionId : undefined,
+                    parentId: typeof op.parentId === 'string' ? op.parentId : undefined,
                     dueDate: typeof op.dueDate === 'string' ? op.dueDate : undefined,
+                    dueTimezone: typeof op.dueTimezone === 'string' ? op.dueTimezone : undefined,
+                    dueString: typeof op.dueString === 'string' ? op.dueString : undefined,
+                    priority: typeof op.priority === 'number' ? op.priority : undefined,
+                    labels: Array.isArray(op.labels) ? op.labels.filter((x): x is string => typeof x === 'string') : undefined,
+                    description: typeof op.description === 'string' ? op.description : undefined,
                     isCompleted: typeof op.isCompleted === 'boolean' ? op.isCompleted : undefined,
                     queuedAt,
                     attempts,
@@ -175,7 +327,9 @@ export function migrateLocalState(raw: unknown): ObsidoistLocalState {
 					type: 'move',
 					opId,
 					id: typeof op.id === 'string' ? op.id : '',
-					projectId: typeof op.projectId === 'string' ? op.projectId : '',
+					projectId: typeof op.projectId === 'string' ? op.projectId : undefined,
+					sectionId: typeof op.sectionId === 'string' ? op.sectionId : undefined,
+					parentId: typeof op.parentId === 'string' ? op.parentId : undefined,
 					queuedAt,
 					attempts,
 					nextRetryAt: Number.isFinite(op.nextRetryAt) ? op.nextRetryAt : undefined,
@@ -188,8 +342,27 @@ export function migrateLocalState(raw: unknown): ObsidoistLocalState {
                     type: 'update',
                     opId,
                     id: typeof op.id === 'string' ? op.id : '',
-                    content: typeof op.content === 'string' ? op.content : '',
-                    dueDate: typeof op.dueDate === 'string' ? op.dueDate : undefined,
+                    content: typeof op.content === 'string' ? op.content : undefined,
+                    dueDate: typeof op.dueDate === 'string' ? op.dueDate : (op.dueDate === null ? null : undefined),
+                    dueTimezone: typeof op.dueTimezone === 'string' ? op.dueTimezone : undefined,
+                    dueString: typeof op.dueString === 'string' ? op.dueString : undefined,
+                    priority: typeof op.priority === 'number' ? op.priority : undefined,
+                    labels: Array.isArray(op.labels) ? op.labels.filter((x): x is string => typeof x === 'string') : undefined,
+                    description: typeof op.description === 'string' ? op.description : undefined,
+                    queuedAt,
+                    attempts,
+                    nextRetryAt: Number.isFinite(op.nextRetryAt) ? op.nextRetryAt : undefined,
+                    lastError: typeof op.lastError === 'string' ? op.lastError : undefined
+                } as SyncOperation;
+            }
+
+            if (op.type === 'createProject') {
+                return {
+                    type: 'createProject',
+                    opId,
+                    localId: typeof op.localId === 'string' ? op.localId : '',
+                    name: typeof op.name === 'string' ? op.name : '',
+                    parentId: typeof op.parentId === 'string' ? op.parentId : undefined,
                     queuedAt,
                     attempts,
                     nextRetryAt: Number.isFinite(op.nextRetryAt) ? op.nextRetryAt : undefined,
@@ -197,11 +370,12 @@ export function migrateLocalState(raw: unknown): ObsidoistLocalState {
                 } as SyncOperation;
             }
 
-            if (op.type === 'close' || op.type === 'reopen') {
+            if (op.type === 'close' || op.type === 'reopen' || op.type === 'delete') {
                 return {
                     type: op.type,
                     opId,
                     id: typeof op.id === 'string' ? op.id : '',
+                    recurring: op.type === 'close' && op.recurring === true ? true : undefined,
                     queuedAt,
                     attempts,
                     nextRetryAt: Number.isFinite(op.nextRetryAt) ? op.nextRetryAt : undefined,
@@ -217,15 +391,22 @@ export function migrateLocalState(raw: unknown): ObsidoistLocalState {
         schemaVersion: 2,
         tasksById: (isRecord(state.tasksById)) ? (state.tasksById as unknown as ObsidoistLocalState['tasksById']) : {},
         projectsById: (isRecord(state.projectsById)) ? (state.projectsById as unknown as ObsidoistLocalState['projectsById']) : {},
+        sectionsById: {},
+        labelsById: (isRecord(state.labelsById)) ? (state.labelsById as unknown as ObsidoistLocalState['labelsById']) : {},
         idAliasMap: (isRecord(state.idAliasMap)) ? (state.idAliasMap as unknown as ObsidoistLocalState['idAliasMap']) : {},
         filterResults: (isRecord(state.filterResults)) ? (state.filterResults as unknown as ObsidoistLocalState['filterResults']) : {},
         filterLastUsedAt: (isRecord(state.filterLastUsedAt)) ? (state.filterLastUsedAt as unknown as ObsidoistLocalState['filterLastUsedAt']) : {},
         queue,
         status: (isRecord(state.status)) ? (state.status as unknown as ObsidoistLocalState['status']) : {},
 		lineShadowById: (isRecord(state.lineShadowById)) ? (state.lineShadowById as unknown as ObsidoistLocalState['lineShadowById']) : {},
+		taskLinesByPath: {},
+		pendingRemovals: {},
+		conflictsById: {},
         syncToken: typeof state.syncToken === 'string' ? state.syncToken : undefined,
         lastFullSyncAt: typeof state.lastFullSyncAt === 'number' ? state.lastFullSyncAt : undefined,
-        lastProjectsSyncAt: typeof state.lastProjectsSyncAt === 'number' ? state.lastProjectsSyncAt : undefined
+        lastProjectsSyncAt: typeof state.lastProjectsSyncAt === 'number' ? state.lastProjectsSyncAt : undefined,
+        lastLabelsSyncAt: typeof state.lastLabelsSyncAt === 'number' ? state.lastLabelsSyncAt : undefined,
+        lastProjectTreeSyncAt: typeof state.lastProjectTreeSyncAt === 'number' ? state.lastProjectTreeSyncAt : undefined
     };
 
     return merged;
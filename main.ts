@@ -1,9 +1,13 @@
-import { Plugin, TFile } from 'obsidian';
+import { Notice, Plugin, TFile } from 'obsidian';
 import { ObsidoistSettings, DEFAULT_SETTINGS, ObsidoistSettingTab } from './settings';
 import { TodoistService } from './todoistService';
 import { SyncManager } from './syncManager';
 import { CodeBlockProcessor } from './codeBlock';
+import { VaultIndex } from './vaultIndex';
+import { ConflictModal, DuplicateTasksModal, OrphanedTasksModal, RevealTaskModal, TaskIdFormatModal } from './taskReports';
+import { RemovedLineTracker } from './removedLines';
 import { createDefaultLocalState, migrateLocalState, ObsidoistLocalState } from './localState';
+import { TaskIdFormat, hasTaskId } from './taskIdCodec';
 import { setDebugEnabled } from './logger';
 import { debug } from './logger';
 
@@ -26,12 +30,15 @@ export default class ObsidoistPlugin extends Plugin {
 	todoistService: TodoistService;
     syncManager: SyncManager;
     codeBlockProcessor: CodeBlockProcessor;
+	vaultIndex: VaultIndex;
+	removedLines: RemovedLineTracker;
 
     localState: ObsidoistLocalState;
 
     private requestPersist: (() => void) | null = null;
 
 	private autoSyncIntervalId: number | null = null;
+	private conflictModalOpen = false;
 
 	async onload() {
 		await this.loadPluginData();
@@ -55,10 +62,47 @@ export default class ObsidoistPlugin extends Plugin {
 		});
         this.syncManager = new SyncManager(this.app, this.todoistService, this.settings);
 		this.codeBlockProcessor = new CodeBlockProcessor(this.app, this.todoistService, this.syncManager, this.settings);
+		this.vaultIndex = new VaultIndex(this.app, this.todoistService, this.localState, () => this.requestPersist?.());
+		this.removedLines = new RemovedLineTracker(this.app, this.todoistService, this.vaultIndex, this.settings, this.localState, () => this.requestPersist?.());
+
+		this.registerEvent(this.vaultIndex.on('lines-removed', (path: unknown, ids: unknown) => {
+			if (typeof path !== 'string' || !Array.isArray(ids)) return;
+			this.removedLines.track(path, ids.filter((id): id is string => typeof id === 'string'));
+		}));
+		this.registerEvent(this.vaultIndex.on('file-removed', (path: unknown, ids: unknown) => {
+			if (typeof path !== 'string' || !Array.isArray(ids)) return;
+			this.removedLines.track(path, ids.filter((id): id is string => typeof id === 'string'), { fileRemoved: true });
+		}));
+		this.registerInterval(window.setInterval(() => this.removedLines.check(), 5000));
 
 		this.registerEvent(this.todoistService.on('id-mapping-updated', () => {
-			const file = this.app.workspace.getActiveFile();
-			if (file) void this.syncManager.syncDownIfHasLocalIds(file);
+			for (const file of this.vaultIndex.filesWithResolvedLocalIds()) void this.syncManager.syncDownSafe(file);
+		}));
+
+		// Write remote changes to every note that links one of the changed tasks, open or not
+		this.registerEvent(this.todoistService.on('tasks-changed', (ids: unknown) => {
+			if (!Array.isArray(ids)) return;
+			for (const file of this.vaultIndex.filesForTasks(ids.filter((id): id is string => typeof id === 'string'))) {
+				void this.syncManager.syncDownSafe(file);
+			}
+		}));
+
+		this.registerEvent(this.todoistService.on('conflict', () => {
+			if (this.settings.conflictPolicy === 'ask') this.openConflicts();
+		}));
+
+		// Vault 'create' also fires for every existing file while the vault loads, so start indexing once the layout is ready
+		this.app.workspace.onLayoutReady(() => {
+			if (!this.vaultIndex.isBuilt()) void this.vaultIndex.rebuild();
+			this.registerEvent(this.app.vault.on('create', (file) => {
+				if (file instanceof TFile) void this.vaultIndex.indexFile(file);
+			}));
+		});
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			this.vaultIndex.renameFile(oldPath, file.path);
+		}));
+		this.registerEvent(this.app.vault.on('delete', (file) => {
+			this.vaultIndex.removeFile(file.path);
 		}));
 
 		this.configureAutoSync();
@@ -106,6 +150,7 @@ export default class ObsidoistPlugin extends Plugin {
         // to avoid reading stale content during editor-change windows.
         this.registerEvent(this.app.vault.on('modify', (file) => {
             if (file instanceof TFile && file.extension === 'md') {
+				void this.vaultIndex.indexFile(file);
 				if (this.syncManager.isLikelyInternalModify(file)) return;
                 // console.log(`[Obsidoist] File modification detected: ${file.path}`);
                 scheduleDebouncedSync(file);
@@ -125,6 +170,54 @@ export default class ObsidoistPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'sync-todoist-vault',
+            name: 'Sync entire vault',
+            callback: async () => {
+				await this.syncEntireVault();
+            }
+        });
+
+        this.addCommand({
+            id: 'reveal-todoist-task',
+            name: 'Reveal task in vault',
+            callback: () => {
+				new RevealTaskModal(this.app, this.todoistService, this.vaultIndex).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'list-duplicate-todoist-tasks',
+            name: 'List tasks linked from more than one line',
+            callback: () => {
+				new DuplicateTasksModal(this.app, this.todoistService, this.vaultIndex).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'list-orphaned-todoist-tasks',
+            name: 'List tasks no note links any more',
+            callback: () => {
+				new OrphanedTasksModal(this.app, this.todoistService, this.syncManager, this.vaultIndex).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'resolve-todoist-conflicts',
+            name: 'Resolve sync conflicts',
+            callback: () => {
+				this.openConflicts();
+            }
+        });
+
+        this.addCommand({
+            id: 'convert-todoist-task-ids',
+            name: 'Convert task ID format in all notes',
+            callback: () => {
+				new TaskIdFormatModal(this.app, (format) => void this.convertTaskIds(format)).open();
+            }
+        });
+
 	}
 
 	onunload(): void {
@@ -143,12 +236,52 @@ export default class ObsidoistPlugin extends Plugin {
 		const seconds = Number(this.settings.autoSyncIntervalSeconds);
 		if (!Number.isFinite(seconds) || seconds <= 0) return;
 
+		// Other notes are updated through the 'tasks-changed' event the sync round emits
 		this.autoSyncIntervalId = window.setInterval(() => {
 			const file = this.app.workspace.getActiveFile();
 			if (file) void this.syncManager.syncFile(file);
+			else void this.todoistService.syncNow();
 		}, seconds * 1000);
 	}
 
+	// Opens the conflict list unless it is already showing
+	openConflicts(onDone?: () => void) {
+		if (this.conflictModalOpen) return;
+		this.conflictModalOpen = true;
+		new ConflictModal(this.app, this.todoistService, this.syncManager, () => {
+			this.conflictModalOpen = false;
+			onDone?.();
+		}).open();
+	}
+
+	// Re-indexes every note, then pushes and pulls all notes with synced or new tasks, or covered by a sync rule
+	private async syncEntireVault() {
+		const files: TFile[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const content = await this.app.vault.cachedRead(file);
+			this.vaultIndex.indexContent(file.path, content);
+			if (content.includes(this.settings.syncTag) || hasTaskId(content) || this.syncManager.noteSyncRule(file)) files.push(file);
+		}
+		await this.syncManager.syncFiles(files);
+		new Notice(`Obsidoist: synced ${files.length} note${files.length === 1 ? '' : 's'}`);
+	}
+
+	// Rewrites the IDs in every note in the chosen format, which new task lines then use as well
+	private async convertTaskIds(idFormat: TaskIdFormat) {
+		this.settings.taskIdFormat = idFormat;
+		await this.saveSettings();
+		let lines = 0;
+		let notes = 0;
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!hasTaskId(await this.app.vault.cachedRead(file))) continue;
+			const converted = await this.syncManager.convertTaskIds(file, idFormat);
+			if (converted === 0) continue;
+			lines += converted;
+			notes++;
+		}
+		new Notice(`Obsidoist: converted ${lines} task ID${lines === 1 ? '' : 's'} in ${notes} note${notes === 1 ? '' : 's'}`);
+	}
+
 	private async loadPluginData() {
         const raw = await this.loadData();
 
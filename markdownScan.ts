@@ -0,0 +1,88 @@
+// Line-level Markdown structure: which lines Obsidian renders as tasks and list items,
+// and which lines are code, math, comments or frontmatter where task syntax is inert.
+
+// Blockquote / callout markers in front of a line, e.g. '> ' or '> > '
+const QUOTE_PREFIX = '(?:[ \\t]*>)*';
+const LIST_MARKER = '(?:[-*+]|\\d+[.)])';
+
+// Quote prefix, indent, list marker and checkbox of a task line; group 1 ends right before the status character
+export const TASK_PREFIX_REGEX = new RegExp(`^(${QUOTE_PREFIX}[ \\t]*${LIST_MARKER}[ \\t]+\\[)(.)\\][ \\t]*`);
+
+const LIST_ITEM_REGEX = new RegExp(`^${QUOTE_PREFIX}[ \\t]*${LIST_MARKER}(?:[ \\t]|$)`);
+const INDENT_REGEX = new RegExp(`^${QUOTE_PREFIX}[ \\t]*`);
+const QUOTE_REGEX = new RegExp(`^${QUOTE_PREFIX}`);
+const FENCE_REGEX = new RegExp(`^${QUOTE_PREFIX}[ \\t]*(\`{3,}|~{3,})`);
+
+/** Everything in front of the list marker or text: quote markers and indentation. */
+export function indentOf(line: string): string {
+	return line.match(INDENT_REGEX)?.[0] ?? '';
+}
+
+// Tabs count as four columns, matching Obsidian's default tab size; quote markers are not counted
+export function indentWidth(line: string): number {
+	const quote = line.match(QUOTE_REGEX)?.[0].length ?? 0;
+	let width = 0;
+	for (const ch of indentOf(line).slice(quote)) width += ch === '\t' ? 4 : 1;
+	return width;
+}
+
+/** Empty lines, including an empty `>` line inside a blockquote or callout. */
+export function isBlankLine(line: string): boolean {
+	return line.replace(QUOTE_REGEX, '').trim() === '';
+}
+
+export function isListItem(line: string): boolean {
+	return LIST_ITEM_REGEX.test(line);
+}
+
+export function isCheckboxLine(line: string): boolean {
+	return TASK_PREFIX_REGEX.test(line);
+}
+
+export function withTaskStatus(line: string, status: string): string {
+	const match = line.match(TASK_PREFIX_REGEX);
+	if (!match) return line;
+	return line.slice(0, match[1].length) + status + line.slice(match[1].length + 1);
+}
+
+/** Indexes of lines inside frontmatter, code fences, math blocks and comments. */
+export function findInertLines(lines: string[]): Set<number> {
+	const inert = new Set<number>();
+	let i = 0;
+
+	if (lines[0]?.trim() === '---') {
+		inert.add(0);
+		for (i = 1; i < lines.length; i++) {
+			inert.add(i);
+			if (lines[i].trim() === '---' || lines[i].trim() === '...') break;
+		}
+		i++;
+	}
+
+	// Closing token of the block currently open
+	let closing: { fence?: string; delimiter?: string } | undefined;
+	for (; i < lines.length; i++) {
+		const line = lines[i];
+		const text = line.replace(QUOTE_REGEX, '').trim();
+		if (closing) {
+			inert.add(i);
+			if (closing.fence ? text.startsWith(closing.fence) && /^(`+|~+)$/.test(text) : text.includes(closing.delimiter ?? '')) closing = undefined;
+			continue;
+		}
+
+		const fence = line.match(FENCE_REGEX);
+		if (fence) {
+			inert.add(i);
+			closing = { fence: fence[1] };
+			continue;
+		}
+
+		for (const [open, close] of [['$$', '$$'], ['%%', '%%'], ['<!--', '-->']]) {
+			if (!text.startsWith(open)) continue;
+			inert.add(i);
+			if (!text.slice(open.length).includes(close)) closing = { delimiter: close };
+			break;
+		}
+	}
+	return inert;
+}
@@ -0,0 +1,141 @@
+// Maps #Project tags on task lines to Todoist projects, and projects back to the tag written for them.
+// A tag names a project by its name or by a path through its parents (#Work/ClientA); the settings
+// can add aliases that map any tag to a project. A last segment naming a section of the project
+// before it (#Work/Backlog) picks that section.
+
+export interface ProjectTagAlias {
+	// Without the '#'; may contain '/'
+	tag: string;
+	projectId: string;
+}
+
+export interface ProjectNode {
+	id: string;
+	name: string;
+	parentId?: string | null;
+}
+
+export interface SectionNode {
+	id: string;
+	name: string;
+	projectId: string;
+}
+
+export type ProjectTagMatch =
+	| { kind: 'project'; id: string; sectionId?: string }
+	| { kind: 'ambiguous'; ids: string[] }
+	| { kind: 'none' };
+
+/** A project name as one tag segment: spaces and characters Obsidian does not allow in tags are dropped. */
+export function projectTagSegment(name: string): string {
+	return name.replace(/[^\p{L}\p{N}\p{M}\p{Extended_Pictographic}_-]/gu, '');
+}
+
+function segmentKey(segment: string): string {
+	return projectTagSegment(segment.normalize('NFC')).toLowerCase();
+}
+
+function tagKey(tag: string): string {
+	return tag.replace(/^#/, '').split('/').map(segmentKey).join('/');
+}
+
+export class ProjectTagResolver {
+	private projectsById = new Map<string, ProjectNode>();
+	private idsBySegment = new Map<string, string[]>();
+	private aliasByKey = new Map<string, ProjectTagAlias>();
+	private sectionsById = new Map<string, SectionNode>();
+
+	constructor(projects: ProjectNode[], aliases: ProjectTagAlias[], sections: SectionNode[] = []) {
+		for (const section of sections) this.sectionsById.set(section.id, section);
+		for (const project of projects) {
+			this.projectsById.set(project.id, project);
+			const key = segmentKey(project.name);
+			if (!key) continue;
+			this.idsBySegment.set(key, [...(this.idsBySegment.get(key) ?? []), project.id]);
+		}
+		for (const alias of aliases) {
+			const key = tagKey(alias.tag);
+			if (key && this.projectsById.has(alias.projectId) && !this.aliasByKey.has(key)) this.aliasByKey.set(key, alias);
+		}
+	}
+
+	/** Resolves a tag (with or without '#') or a Dataview project value. */
+	match(tag: string): ProjectTagMatch {
+		const key = tagKey(tag.trim());
+		if (!key || key.split('/').some(x => !x)) return { kind: 'none' };
+		const alias = this.aliasByKey.get(key);
+		if (alias) return { kind: 'project', id: alias.projectId };
+
+		const segments = key.split('/');
+		const ids = (this.idsBySegment.get(segments[segments.length - 1]) ?? []).filter(id => this.hasAncestors(id, segments.slice(0, -1)));
+		if (ids.length === 1) return { kind: 'project', id: ids[0] };
+		if (ids.length > 1) return { kind: 'ambiguous', ids };
+		if (segments.length < 2) return { kind: 'none' };
+
+		const parent = this.match(segments.slice(0, -1).join('/'));
+		if (parent.kind !== 'project' || parent.sectionId) return { kind: 'none' };
+		const sectionIds = this.findSections(parent.id, segments[segments.length - 1]);
+		if (sectionIds.length === 1) return { kind: 'project', id: parent.id, sectionId: sectionIds[0] };
+		if (sectionIds.length > 1) return { kind: 'ambiguous', ids: sectionIds };
+		return { kind: 'none' };
+	}
+
+	/** Sections of a project with the given name, as written after '§' or in a Dataview field. */
+	findSections(projectId: string, name: string): string[] {
+		const key = segmentKey(name.trim());
+		if (!key) return [];
+		return Array.from(this.sectionsById.values())
+			.filter(x => x.projectId === projectId && segmentKey(x.name) === key)
+			.map(x => x.id);
+	}
+
+	isSectionName(name: string): boolean {
+		const key = segmentKey(name);
+		return Boolean(key) && Array.from(this.sectionsById.values()).some(x => segmentKey(x.name) === key);
+	}
+
+	/** The project tag extended with a section of that project, as in #Work/Backlog. */
+	sectionTagFor(projectId: string, sectionId: string): string | undefined {
+		const tag = this.tagFor(projectId);
+		const section = this.sectionsById.get(sectionId);
+		if (!tag || !section || section.projectId !== projectId) return tag;
+		return `${tag}/${projectTagSegment(section.name)}`;
+	}
+
+	/** The tag written for a project: its first alias, else the shortest parent path naming it alone. */
+	tagFor(projectId: string): string | undefined {
+		for (const alias of this.aliasByKey.values()) {
+			if (alias.projectId === projectId) return alias.tag.trim().replace(/^#/, '');
+		}
+		const path: string[] = [];
+		for (let project = this.projectsById.get(projectId); project; project = project.parentId ? this.projectsById.get(project.parentId) : undefined) {
+			path.unshift(projectTagSegment(project.name));
+			if (path.length > this.projectsById.size) break;
+			const result = this.match(path.join('/'));
+			if (result.kind === 'project' && result.id === projectId) return path.join('/');
+		}
+		return path.length > 0 ? path.join('/') : undefined;
+	}
+
+	describe(id: string): string {
+		// Section IDs describe as their project path followed by the section name
+		const section = this.sectionsById.get(id);
+		if (section) return `${this.describe(section.projectId)} / ${section.name}`;
+		const projectId = id;
+		const names: string[] = [];
+		for (let project = this.projectsById.get(projectId); project && names.length <= this.projectsById.size; project = project.parentId ? this.projectsById.get(project.parentId) : undefined) {
+			names.unshift(project.name);
+		}
+		return names.join(' / ') || projectId;
+	}
+
+	// Whether the project's nearest parents are named, from the top, by `segments`
+	private hasAncestors(id: string, segments: string[]): boolean {
+		let current = this.projectsById.get(id);
+		for (let i = segments.length - 1; i >= 0; i--) {
+			current = current?.parentId ? this.projectsById.get(current.parentId) : undefined;
+			if (!current || segmentKey(current.name) !== segments[i]) return false;
+		}
+		return true;
+	}
+}
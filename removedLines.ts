@@ -0,0 +1,142 @@
+import { App, Notice } from 'obsidian';
+import { ObsidoistLocalState, TaskId } from './localState';
+import { ObsidoistSettings } from './settings';
+import { TodoistService } from './todoistService';
+import { VaultIndex } from './vaultIndex';
+import { RemovedTasksModal } from './taskReports';
+import { debug } from './logger';
+
+// What happens to an open Todoist task when its line is removed from every note
+export type RemovedLinePolicy = 'ignore' | 'close' | 'delete' | 'ask';
+
+export const REMOVED_LINE_POLICY_NAMES: Record<RemovedLinePolicy, string> = {
+	ignore: 'Keep the task open',
+	close: 'Complete the task',
+	delete: 'Delete the task in Todoist',
+	ask: 'Ask every time'
+};
+
+export function isRemovedLinePolicy(value: unknown): value is RemovedLinePolicy {
+	return typeof value === 'string' && Object.prototype.hasOwnProperty.call(REMOVED_LINE_POLICY_NAMES, value);
+}
+
+/**
+ * Applies the removed-line policy to tasks whose line disappeared from a note. A removal only
+ * counts once the grace window has passed without the ID showing up again, so a line cut from
+ * one note and pasted into another is treated as a move. Tasks of a deleted note additionally wait
+ * for the vault to be read again, as a note moved by another tool can show up as a delete.
+ */
+export class RemovedLineTracker {
+	private app: App;
+	private service: TodoistService;
+	private index: VaultIndex;
+	private settings: ObsidoistSettings;
+	private localState: ObsidoistLocalState;
+	private requestPersist: () => void;
+
+	// Set while the confirmation modal is open; later removals wait for it
+	private asking = false;
+	// Set while the vault is read again to confirm removals of deleted notes
+	private reindexing = false;
+
+	constructor(app: App, service: TodoistService, index: VaultIndex, settings: ObsidoistSettings, localState: ObsidoistLocalState, requestPersist: () => void) {
+		this.app = app;
+		this.service = service;
+		this.index = index;
+		this.settings = settings;
+		this.localState = localState;
+		this.requestPersist = requestPersist;
+	}
+
+	track(path: string, ids: TaskId[], opts?: { fileRemoved?: boolean }) {
+		if (this.settings.removedLinePolicy === 'ignore') return;
+		const now = Date.now();
+		for (const id of ids) {
+			if (this.localState.pendingRemovals[id]) continue;
+			debug('removedLine:track', { id, path, fileRemoved: opts?.fileRemoved });
+			this.localState.pendingRemovals[id] = opts?.fileRemoved ? { path, removedAt: now, fileRemoved: true } : { path, removedAt: now };
+		}
+		this.requestPersist();
+	}
+
+	// Call periodically; acts on removals whose grace window has passed
+	check() {
+		if (this.asking || this.reindexing) return;
+		const pending = this.localState.pendingRemovals;
+		const ids = Object.keys(pending);
+		if (ids.length === 0) return;
+
+		const policy = this.settings.removedLinePolicy;
+		// Switched to 'ignore' while removals were pending
+		if (policy === 'ignore') {
+			this.localState.pendingRemovals = {};
+			this.requestPersist();
+			return;
+		}
+		const graceMs = Math.max(0, this.settings.removedLineGraceSeconds) * 1000;
+		const now = Date.now();
+		const unconfirmed = ids.filter(id => pending[id].fileRemoved && now - pending[id].removedAt >= graceMs);
+		if (unconfirmed.length > 0) {
+			this.reindexing = true;
+			void this.index.rebuild()
+				.then(() => {
+					for (const id of unconfirmed) {
+						if (pending[id]) pending[id].fileRemoved = undefined;
+					}
+					this.requestPersist();
+					this.reindexing = false;
+					this.check();
+				})
+				// Left for the next tick to try again
+				.catch((e) => {
+					const msg = e instanceof Error ? e.message : String(e);
+					debug('removedLine:reindexFailed', { msg });
+					this.localState.status.lastErrorMessage = msg;
+					this.localState.status.lastErrorAt = Date.now();
+					this.requestPersist();
+				})
+				.finally(() => {
+					this.reindexing = false;
+				});
+			return;
+		}
+		const referenced = this.index.referencedTaskIds();
+		const due: { id: TaskId; path: string }[] = [];
+		for (const id of ids) {
+			const removal = pending[id];
+			const moved = referenced.has(this.service.resolveTaskId(id));
+			if (!moved && now - removal.removedAt < graceMs) continue;
+			delete pending[id];
+			const task = this.service.getCachedTask(id);
+			if (moved || !task || task.isCompleted || task.isDeleted) continue;
+			due.push({ id: task.id, path: removal.path });
+		}
+		this.requestPersist();
+		if (due.length === 0) return;
+
+		if (policy !== 'ask') {
+			void this.apply(due.map(x => x.id), policy);
+			return;
+		}
+		this.asking = true;
+		new RemovedTasksModal(this.app, this.service, due, (action) => {
+			this.asking = false;
+			if (action) void this.apply(due.map(x => x.id), action);
+		}).open();
+	}
+
+	private async apply(ids: TaskId[], action: 'close' | 'delete') {
+		// Completing a recurring task only moves it to its next date, so those are left open
+		const skipped = action === 'close' ? ids.filter(id => this.service.isRecurringTask(id)) : [];
+		for (const id of ids) {
+			if (skipped.includes(id)) continue;
+			debug('removedLine:apply', { id, action });
+			if (action === 'close') await this.service.closeTask(id);
+			else await this.service.deleteTask(id);
+		}
+		if (skipped.length > 0) {
+			new Notice(`Obsidoist: left ${skipped.length} recurring task${skipped.length === 1 ? '' : 's'} open, as completing only moves a recurring task to its next date`);
+		}
+		await this.service.syncNow();
+	}
+}
@@ -1,7 +1,13 @@
 import { App, PluginSettingTab, Setting, Notice, Modal, TFile } from 'obsidian';
 import type ObsidoistPlugin from './main';
-
-function confirmWithModal(app: App, title: string, message: string): Promise<boolean> {
+import { LINE_FORMAT_NAMES, LineFormat, isLineFormat } from './lineFormat';
+import { TASK_ID_FORMAT_NAMES, TaskIdFormat, findTaskId, isTaskIdFormat } from './taskIdCodec';
+import { REMOVED_LINE_POLICY_NAMES, RemovedLinePolicy, isRemovedLinePolicy } from './removedLines';
+import { CONFLICT_POLICY_NAMES, ConflictPolicy, isConflictPolicy } from './conflicts';
+import { FolderSyncRule } from './syncRules';
+import { ProjectTagAlias, ProjectTagResolver } from './projectTags';
+
+export function confirmWithModal(app: App, title: string, message: string): Promise<boolean> {
 	return new Promise((resolve) => {
 		const modal = new (class extends Modal {
 			onResult: (value: boolean) => void;
@@ -36,24 +42,45 @@ function confirmWithModal(app: App, title: string, message: string): Promise<boo
 export interface ObsidoistSettings {
 	todoistToken: string;
 	syncTag: string;
+	lineFormat: LineFormat;
+	taskIdFormat: TaskIdFormat;
     defaultProjectId: string;
 	autoSyncIntervalSeconds: number;
 	completedRetentionDays: number;
 	maxFilterCacheEntries: number;
 	useSyncApi: boolean;
 	codeblockAutoRefreshSeconds: number;
+	logRecurringCompletions: boolean;
+	removedLinePolicy: RemovedLinePolicy;
+	removedLineGraceSeconds: number;
+	conflictPolicy: ConflictPolicy;
+	folderSyncRules: FolderSyncRule[];
+	syncExcludedPaths: string[];
+	projectTagAliases: ProjectTagAlias[];
+	// Tags starting with this create a missing project, as in #p/NewClient; empty to never create
+	projectCreatePrefix: string;
 	debugLogging: boolean;
 }
 
 export const DEFAULT_SETTINGS: ObsidoistSettings = {
 	todoistToken: '',
 	syncTag: '#todoist',
+	lineFormat: 'obsidoist',
+	taskIdFormat: 'bracket',
 	defaultProjectId: '',
 	autoSyncIntervalSeconds: 60,
 	completedRetentionDays: 30,
 	maxFilterCacheEntries: 50,
 	useSyncApi: true,
 	codeblockAutoRefreshSeconds: 60,
+	logRecurringCompletions: false,
+	removedLinePolicy: 'ignore',
+	removedLineGraceSeconds: 60,
+	conflictPolicy: 'ask',
+	folderSyncRules: [],
+	syncExcludedPaths: [],
+	projectTagAliases: [],
+	projectCreatePrefix: '',
 	debugLogging: false
 }
 
@@ -126,6 +153,35 @@ export class ObsidoistSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Task line format')
+			.setDesc('How due dates, priority and other task metadata are read from and written to Markdown lines.')
+			.addDropdown(dropdown => {
+				for (const [format, name] of Object.entries(LINE_FORMAT_NAMES)) dropdown.addOption(format, name);
+				dropdown.setValue(this.plugin.settings.lineFormat ?? 'obsidoist');
+				dropdown.onChange(async (value) => {
+					if (!isLineFormat(value)) return;
+					this.plugin.settings.lineFormat = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('Task ID format')
+			.setDesc('How the ID of a new task is stored on its line. Every format is still read, and the convert command rewrites existing notes.')
+			.addDropdown(dropdown => {
+				for (const [format, name] of Object.entries(TASK_ID_FORMAT_NAMES)) dropdown.addOption(format, name);
+				dropdown.setValue(this.plugin.settings.taskIdFormat ?? 'bracket');
+				dropdown.onChange(async (value) => {
+					if (!isTaskIdFormat(value)) return;
+					this.plugin.settings.taskIdFormat = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		this.displaySyncRules(containerEl);
+		this.displayProjectTagAliases(containerEl);
+
 		new Setting(containerEl).setName('Sync').setHeading();
 
 		new Setting(containerEl)
@@ -154,6 +210,54 @@ export class ObsidoistSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Log completed recurring tasks')
+			.setDesc('When a recurring task is checked off in a note, keep a completed copy of the line above it.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.logRecurringCompletions ?? false)
+				.onChange(async (value) => {
+					this.plugin.settings.logRecurringCompletions = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('When a synced line is removed')
+			.setDesc('What to do with the open task when its line is deleted from a note and does not reappear in any note.')
+			.addDropdown(dropdown => {
+				for (const [policy, name] of Object.entries(REMOVED_LINE_POLICY_NAMES)) dropdown.addOption(policy, name);
+				dropdown.setValue(this.plugin.settings.removedLinePolicy ?? 'ignore');
+				dropdown.onChange(async (value) => {
+					if (!isRemovedLinePolicy(value)) return;
+					this.plugin.settings.removedLinePolicy = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('Removed line grace period (seconds)')
+			.setDesc('How long to wait for a removed line to show up again, so that moving a line to another note does not count as removing it.')
+			.addText(text => text
+				.setPlaceholder('60')
+				.setValue(String(this.plugin.settings.removedLineGraceSeconds ?? 60))
+				.onChange(async (value) => {
+					const parsed = Number.parseInt(value.trim() || '0', 10);
+					this.plugin.settings.removedLineGraceSeconds = Number.isFinite(parsed) && parsed >= 0 ? parsed : 60;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('When a task changed on both sides')
+			.setDesc('Which version of a field to keep when both the note and the remote task changed it since the last sync. Fields changed on only one side are always merged.')
+			.addDropdown(dropdown => {
+				for (const [policy, name] of Object.entries(CONFLICT_POLICY_NAMES)) dropdown.addOption(policy, name);
+				dropdown.setValue(this.plugin.settings.conflictPolicy ?? 'ask');
+				dropdown.onChange(async (value) => {
+					if (!isConflictPolicy(value)) return;
+					this.plugin.settings.conflictPolicy = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
 		new Setting(containerEl)
 			.setName('Sync now')
 			.setDesc('Flush pending local changes and refresh tasks.')
@@ -174,12 +278,18 @@ export class ObsidoistSettingTab extends PluginSettingTab {
 		const status = this.plugin.todoistService.getSyncStatus();
 		const cache = this.plugin.todoistService.getCacheStats();
 		const queueLength = this.plugin.todoistService.getQueueLength();
+		const conflictCount = Object.keys(this.plugin.todoistService.getConflicts()).length;
 
-		new Setting(containerEl)
+		const statusSetting = new Setting(containerEl)
 			.setName('Sync status')
 			.setDesc(
-				`Queue: ${queueLength} | Tasks: ${cache.tasks} | Filters: ${cache.filters} | Last success: ${status.lastSuccessfulSyncAt ? new Date(status.lastSuccessfulSyncAt).toLocaleString() : 'Never'}${status.lastErrorMessage ? ` | Last error: ${status.lastErrorMessage}` : ''}`
+				`Queue: ${queueLength} | Tasks: ${cache.tasks} | Filters: ${cache.filters} | Last success: ${status.lastSuccessfulSyncAt ? new Date(status.lastSuccessfulSyncAt).toLocaleString() : 'Never'}${conflictCount > 0 ? ` | Conflicts: ${conflictCount}` : ''}${status.lastErrorMessage ? ` | Last error: ${status.lastErrorMessage}` : ''}`
 			);
+		if (conflictCount > 0) {
+			statusSetting.addButton(btn => btn
+				.setButtonText('Resolve')
+				.onClick(() => this.plugin.openConflicts(() => this.display())));
+		}
 
 		new Setting(containerEl)
 			.setName('Todoist sync API')
@@ -267,7 +377,6 @@ export class ObsidoistSettingTab extends PluginSettingTab {
 						if (aliasKeySet.has(id)) keep.add(id);
 					}
 
-					const re = /\[todoist_id:(local-[\w-]+)\]/g;
 					const vaultGet = this.app.vault as unknown as { getMarkdownFiles?: () => TFile[] };
 					const files = typeof vaultGet.getMarkdownFiles === 'function'
 						? vaultGet.getMarkdownFiles()
@@ -280,10 +389,9 @@ export class ObsidoistSettingTab extends PluginSettingTab {
 						} catch {
 							continue;
 						}
-						let m: RegExpExecArray | null;
-						while ((m = re.exec(text)) !== null) {
-							const id = m[1];
-							if (aliasKeySet.has(id)) keep.add(id);
+						for (const line of text.split('\n')) {
+							const id = findTaskId(line)?.id;
+							if (id && aliasKeySet.has(id)) keep.add(id);
 						}
 					}
 
@@ -318,4 +426,134 @@ export class ObsidoistSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 	}
+
+	private displayProjectTagAliases(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('Project tags')
+			.setDesc('A project tag matches a whole project name, or a path through its parent projects. Aliases map any other tag to a project and are written in place of the name.')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Create projects from tags')
+			.setDesc('A tag starting with this prefix, followed by a project name or path, creates that project when none matches. Leave empty to never create projects.')
+			.addText(text => text
+				.setPlaceholder('Prefix')
+				.setValue(this.plugin.settings.projectCreatePrefix ?? '')
+				.onChange(async (value) => {
+					this.plugin.settings.projectCreatePrefix = value.trim().replace(/^#/, '');
+					await this.plugin.saveSettings();
+				}));
+
+		const aliases = this.plugin.settings.projectTagAliases ?? [];
+		const updateAlias = async (index: number, patch: Partial<ProjectTagAlias>) => {
+			this.plugin.settings.projectTagAliases = aliases.map((alias, i) => (i === index ? { ...alias, ...patch } : alias));
+			await this.plugin.saveSettings();
+		};
+		const rows = aliases.map((alias, index) => new Setting(containerEl)
+			.addText(text => text
+				.setPlaceholder('Tag')
+				.setValue(alias.tag)
+				.onChange(async (value) => {
+					await updateAlias(index, { tag: value.trim().replace(/^#/, '') });
+				}))
+			.addExtraButton(btn => btn
+				.setIcon('trash')
+				.setTooltip('Remove alias')
+				.onClick(async () => {
+					this.plugin.settings.projectTagAliases = aliases.filter((_, i) => i !== index);
+					await this.plugin.saveSettings();
+					this.display();
+				})));
+
+		if (rows.length > 0 && this.plugin.settings.todoistToken) {
+			void this.plugin.todoistService.getProjects().then(projects => {
+				const resolver = new ProjectTagResolver(projects, []);
+				const options = projects
+					.map(project => ({ id: project.id, path: resolver.describe(project.id) }))
+					.sort((a, b) => a.path.localeCompare(b.path));
+				rows.forEach((row, index) => {
+					row.addDropdown(dropdown => {
+						dropdown.addOption('', 'Choose a project');
+						for (const option of options) dropdown.addOption(option.id, option.path);
+						dropdown.setValue(aliases[index].projectId);
+						dropdown.onChange(async (value) => {
+							await updateAlias(index, { projectId: value });
+						});
+					});
+				});
+			});
+		}
+
+		new Setting(containerEl)
+			.addButton(btn => btn
+				.setButtonText('Add alias')
+				.onClick(async () => {
+					this.plugin.settings.projectTagAliases = [...aliases, { tag: '', projectId: '' }];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	private displaySyncRules(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('Sync rules')
+			.setDesc('Open checkboxes in notes matching a rule sync without the sync tag. A note can also opt in or out with a todoist key in its frontmatter, which takes precedence over folder rules.')
+			.setHeading();
+
+		const rules = this.plugin.settings.folderSyncRules ?? [];
+		const updateRule = async (index: number, patch: Partial<FolderSyncRule>) => {
+			this.plugin.settings.folderSyncRules = rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule));
+			await this.plugin.saveSettings();
+		};
+		rules.forEach((rule, index) => {
+			new Setting(containerEl)
+				.addText(text => text
+					.setPlaceholder('Folder or glob')
+					.setValue(rule.path)
+					.onChange(async (value) => {
+						await updateRule(index, { path: value.trim() });
+					}))
+				.addText(text => text
+					.setPlaceholder('Project (default if empty)')
+					.setValue(rule.project)
+					.onChange(async (value) => {
+						await updateRule(index, { project: value.trim() });
+					}))
+				.addText(text => text
+					.setPlaceholder('Labels, comma separated')
+					.setValue(rule.labels.join(', '))
+					.onChange(async (value) => {
+						await updateRule(index, { labels: value.split(',').map(x => x.trim()).filter(Boolean) });
+					}))
+				.addExtraButton(btn => btn
+					.setIcon('trash')
+					.setTooltip('Remove rule')
+					.onClick(async () => {
+						this.plugin.settings.folderSyncRules = rules.filter((_, i) => i !== index);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.setDesc('Rules are checked in order and the first matching one applies.')
+			.addButton(btn => btn
+				.setButtonText('Add rule')
+				.onClick(async () => {
+					this.plugin.settings.folderSyncRules = [...rules, { path: '', project: '', labels: [] }];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Excluded from sync rules')
+			.setDesc('Folders or globs, one per line, where no rule or frontmatter opt-in applies, such as an archive folder. Tagged lines there still sync.')
+			.addTextArea(text => text
+				.setPlaceholder('Archive/**')
+				.setValue((this.plugin.settings.syncExcludedPaths ?? []).join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.syncExcludedPaths = value.split('\n').map(x => x.trim()).filter(Boolean);
+					await this.plugin.saveSettings();
+				}));
+	}
 }
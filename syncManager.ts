@@ -3,6 +3,116 @@ import { TodoistService } from './todoistService';
 import { ObsidoistSettings } from './settings';
 import { Project } from '@doist/todoist-api-typescript';
 import { debug } from './logger';
+import { ConflictField, LineShadow, TaskFields, TaskId } from './localState';
+import { formatDueValue, toDueValue, todayDueValue } from './dueDates';
+import { FieldSlot, LINE_FORMAT_FRONTMATTER_KEY, LineEdit, LineFormat, appendTaskId, applyLineEdits, convertTaskId, formatFieldSpans, isLineFormat, readInlineFields, removalEdit, renderField, renderTaskLineBody, setDoneDate } from './lineFormat';
+import { changedFields, copyFields, findConflicts } from './conflicts';
+import { NoteSyncRule, resolveNoteSyncRule } from './syncRules';
+import { ProjectTagResolver, projectTagSegment } from './projectTags';
+import { TaskIdFormat, findTaskId, hasTaskId, removeTaskId, replaceTaskId } from './taskIdCodec';
+import { TASK_PREFIX_REGEX, findInertLines, indentOf, indentWidth, isBlankLine, isCheckboxLine, isListItem, withTaskStatus } from './markdownScan';
+
+// Todoist priorities run from 1 (normal) to 4 (urgent, shown as p1 in the app).
+const PRIORITY_BY_MARKER: Record<string, number> = {
+	'🔺': 4,
+	'⏫': 4,
+	'🔼': 3,
+	'🔽': 2,
+	'⏬': 1,
+	p1: 4,
+	p2: 3,
+	p3: 2,
+	p4: 1,
+	// Dataview [priority:: ...] values
+	highest: 4,
+	high: 4,
+	medium: 3,
+	low: 2,
+	lowest: 1,
+	none: 1
+};
+
+const MARKER_BY_PRIORITY: Record<number, string> = {
+	4: '⏫',
+	3: '🔼',
+	2: '🔽'
+};
+
+const NAME_BY_PRIORITY: Record<number, string> = {
+	4: 'high',
+	3: 'medium',
+	2: 'low'
+};
+
+const INLINE_DUE_REGEX = /^(\d{4}-\d{2}-\d{2})(?:[ T](\d{1,2}:\d{2}))?/;
+
+// dueText is a `due:` marker; meta covers fields kept on the line but never synced
+type SpanKind = 'id' | 'syncTag' | 'project' | 'section' | 'label' | 'priority' | 'recurrence' | 'due' | 'dueText' | 'timezone' | 'done' | 'meta' | 'blockRef';
+
+interface LineSpan {
+	kind: SpanKind;
+	start: number;
+	end: number;
+}
+
+function normalizeDescription(text: string | undefined): string {
+	return (text ?? '').replace(/\r\n?/g, '\n').split('\n').map(l => l.trimEnd()).join('\n').trim();
+}
+
+// Index after the last line that belongs to the list item at `start` (its more-indented children)
+function blockEnd(lines: string[], start: number): number {
+	const indent = indentWidth(lines[start]);
+	let end = start + 1;
+	for (let j = start + 1; j < lines.length; j++) {
+		if (isBlankLine(lines[j])) continue;
+		if (indentWidth(lines[j]) <= indent) break;
+		end = j + 1;
+	}
+	return end;
+}
+
+function reindentBlock(block: string[], newIndent: string): string[] {
+	const base = indentOf(block[0]);
+	return block.map(l => {
+		if (isBlankLine(l)) return l;
+		return l.startsWith(base) ? newIndent + l.slice(base.length) : newIndent + l.trimStart();
+	});
+}
+
+// The file's own nesting unit (smallest indentation used by a list item), defaulting to a tab
+function indentUnit(lines: string[]): string {
+	let unit = '';
+	for (const line of lines) {
+		if (!isListItem(line)) continue;
+		const indent = indentOf(line);
+		if (indent && (!unit || indentWidth(indent) < indentWidth(unit))) unit = indent;
+	}
+	return unit || '\t';
+}
+
+/** Tracks the nearest synced ancestor of each line from its list indentation. */
+class ParentTracker {
+	private stack: { indent: number; id?: TaskId }[] = [];
+
+	// Call for every line in order; returns the id of the closest synced task above it
+	enter(line: string): TaskId | undefined {
+		if (!isBlankLine(line)) {
+			const indent = indentWidth(line);
+			while (this.stack.length > 0 && this.stack[this.stack.length - 1].indent >= indent) this.stack.pop();
+		}
+		for (let i = this.stack.length - 1; i >= 0; i--) {
+			const id = this.stack[i].id;
+			if (id) return id;
+		}
+		return undefined;
+	}
+
+	// Call after `enter` for list items; `id` is set when the item is a synced task
+	push(line: string, id?: TaskId) {
+		if (!isListItem(line)) return;
+		this.stack.push({ indent: indentWidth(line), id });
+	}
+}
 
 export class SyncManager {
     app: App;
@@ -12,14 +122,51 @@ export class SyncManager {
 	private syncChain: Promise<void> = Promise.resolve();
 
 	private lastInternalModifyAtByPath = new Map<string, number>();
+
+	// Format of the note being processed; set at the start of each file pass
+	private lineFormat: LineFormat = 'obsidoist';
+	// Sync rule of the note being scanned, if its untagged checkboxes sync too
+	private noteRule: NoteSyncRule | undefined;
     
-    private sigEquals(a: { content: string; isCompleted: boolean; projectId?: string; dueDate?: string } | undefined, b: { content: string; isCompleted: boolean; projectId?: string; dueDate?: string } | undefined): boolean {
+    private sigEquals(a: LineShadow | undefined, b: LineShadow | undefined): boolean {
         if (!a || !b) return false;
-        return a.content === b.content && a.isCompleted === b.isCompleted && (a.projectId ?? undefined) === (b.projectId ?? undefined) && (a.dueDate ?? undefined) === (b.dueDate ?? undefined);
+        return this.sameTaskId(a.parentId, b.parentId) && a.content === b.content && a.isCompleted === b.isCompleted && (a.projectId ?? undefined) === (b.projectId ?? undefined) && (a.sectionId ?? undefined) === (b.sectionId ?? undefined) && (a.dueDate ?? undefined) === (b.dueDate ?? undefined) && (a.dueTimezone ?? undefined) === (b.dueTimezone ?? undefined) && (a.dueString ?? undefined) === (b.dueString ?? undefined) && (a.priority ?? 1) === (b.priority ?? 1) && this.labelsEqual(a.labels, b.labels) && normalizeDescription(a.description) === normalizeDescription(b.description);
     }
+
+	private sameTaskId(a: TaskId | undefined, b: TaskId | undefined): boolean {
+		const left = a ? this.service.resolveTaskId(a) : undefined;
+		const right = b ? this.service.resolveTaskId(b) : undefined;
+		return left === right;
+	}
+
+	private labelsEqual(a: string[] | undefined, b: string[] | undefined): boolean {
+		const left = [...(a ?? [])].sort();
+		const right = [...(b ?? [])].sort();
+		return left.length === right.length && left.every((x, i) => x === right[i]);
+	}
+
+	// The cached Todoist task in the shape of a line shadow, for comparing with a line
+	private cachedSig(cached: NonNullable<ReturnType<TodoistService['getCachedTask']>>, parentId: TaskId | undefined): LineShadow {
+		return {
+			content: cached.content,
+			dueDate: cached.dueDate,
+			dueTimezone: cached.dueTimezone,
+			dueString: cached.isRecurring ? cached.dueString : undefined,
+			projectId: cached.projectId,
+			sectionId: cached.sectionId,
+			parentId,
+			isCompleted: cached.isCompleted,
+			priority: cached.priority ?? 1,
+			labels: cached.labels ?? [],
+			description: normalizeDescription(cached.description)
+		};
+	}
     
     // Cache for projects
     private projects: Project[] = [];
+	private projectTags = new ProjectTagResolver([], []);
+	// Ambiguous project tags already warned about this session
+	private warnedProjectTags = new Set<string>();
     private lastProjectFetch = 0;
 
     // Regex to match tasks with the sync tag (strict) - used for legacy clean parsing if needed
@@ -30,14 +177,29 @@ export class SyncManager {
         return new RegExp(`^\\s*-\\s\\[(.)\\]\\s+(.*?)(\\s${tag})(?:\\s\\[todoist_id:(\\d+)\\])?\\s*$`);
     }
 
-    // Flexible regex for detecting ID only
-    // Matches: [todoist_id:12345] anywhere in the line
-    private get idRegex() {
-        return /\[todoist_id:([\w-]+)\]/;
-    }
-
+	// Matches: 🗓 2026-01-16, 🗓 2026-01-16 14:30 and 🗓 2026-01-16 14:30 Europe/Berlin
 	private get dueRegex() {
-		return /(?:🗓️?|📅)\s*(\d{4}-\d{2}-\d{2})/;
+		return /(?:🗓️?|📅)\s*(\d{4}-\d{2}-\d{2})(?:[ T](\d{1,2}:\d{2}))?(?:\s+(UTC|[A-Za-z]+\/[A-Za-z0-9_+\-/]+))?/;
+	}
+
+	// Matches: 🔁 every monday — the rule runs until the next tag, marker or ID
+	private get recurrenceRegex() {
+		return /🔁\s*((?:(?![#@[]|🗓|📅|🔺|⏫|🔼|🔽|⏬|[pP][1-4](?:\s|$))\S+\s*)+)/u;
+	}
+
+	// Matches: due: next friday — free text for Todoist to parse, up to the next tag, marker or ID
+	private get dueStringRegex() {
+		return /(^|\s)due:\s*((?:(?![#@[]|🗓|📅|🔁|🔺|⏫|🔼|🔽|⏬|[pP][1-4](?:\s|$))\S+\s*)+)/iu;
+	}
+
+	// Matches: ⏫ / 🔼 / 🔽 (Tasks-style) or p1..p4 (Todoist-style) as standalone tokens
+	private get priorityRegex() {
+		return /(^|\s)(🔺|⏫|🔼|🔽|⏬|[pP][1-4])(?=\s|$)/;
+	}
+
+	// Matches: #tag or @label tokens; callers decide which of them are Todoist labels
+	private get labelTokenRegex() {
+		return /(^|\s)([#@])([^\s#@[\]]+)/g;
 	}
 
     constructor(app: App, service: TodoistService, settings: ObsidoistSettings) {
@@ -70,6 +232,18 @@ export class SyncManager {
 		});
 	}
 
+	// Pushes every note before a single sync round, then writes the results back to each of them
+	syncFiles(files: TFile[]): Promise<void> {
+		return this.enqueueSync(async () => {
+			debug('syncFiles:start', { count: files.length });
+			for (const file of files) await this.scanAndSyncFile(file);
+			await this.service.syncNow();
+			for (const file of files) await this.syncDown(file);
+			this.service.triggerRefresh();
+			debug('syncFiles:done', { count: files.length });
+		});
+	}
+
 	syncAfterQueue(file: TFile): Promise<void> {
 		return this.enqueueSync(async () => {
 			debug('syncAfterQueue:start', { path: file.path });
@@ -101,20 +275,140 @@ export class SyncManager {
             this.projects = await this.service.getProjects();
             this.lastProjectFetch = Date.now();
         }
+		// Rebuilt on every pass so alias edits in the settings apply right away
+		this.rebuildProjectTags();
     }
 
-    private findProjectByTag(content: string): string | undefined {
-        const lowerContent = content.toLowerCase();
-        for (const project of this.projects) {
-            const normalizedProjectName = project.name.replace(/\s+/g, '');
-            const tag = `#${normalizedProjectName.toLowerCase()}`;
-            if (lowerContent.includes(tag)) {
-                return project.id;
-            }
-        }
-        return undefined;
-    }
-    
+	private rebuildProjectTags() {
+		this.projectTags = new ProjectTagResolver(this.projects, this.settings.projectTagAliases ?? [], this.service.getSections());
+	}
+
+	// Project tag of a task line as written: the [project:: ...] field for Dataview lines, the first #Project tag otherwise
+	private lineProjectTag(line: string): string | undefined {
+		if (this.lineFormat === 'dataview') return readInlineFields(line).project;
+		const span = this.lineSpans(line).find(x => x.kind === 'project');
+		return span ? line.slice(span.start + 1, span.end) : undefined;
+	}
+
+	private findLineProject(line: string): string | undefined {
+		const name = this.lineProjectTag(line);
+		return name ? this.projectIdByName(name) : undefined;
+	}
+
+	// The rest of a tag written with the project creation prefix, as 'NewClient' in #p/NewClient
+	private stripProjectCreatePrefix(name: string): string | undefined {
+		const prefix = (this.settings.projectCreatePrefix ?? '').trim().replace(/^#/, '');
+		const tag = name.trim().replace(/^#/, '');
+		if (!prefix || tag.length <= prefix.length || tag.slice(0, prefix.length).toLowerCase() !== prefix.toLowerCase()) return undefined;
+		return tag.slice(prefix.length).replace(/^\/+/, '') || undefined;
+	}
+
+	/**
+	 * Project of a line being pushed. A prefixed tag naming no project yet queues the project in
+	 * Todoist, under the parent its path names if any, and the line's task is filed in it.
+	 */
+	private ensureLineProject(line: string): string | undefined {
+		const found = this.findLineProject(line);
+		if (found) return found;
+		const tag = this.lineProjectTag(line);
+		const path = tag ? this.stripProjectCreatePrefix(tag) : undefined;
+		if (!path || this.projectTags.match(path).kind !== 'none') return undefined;
+		const segments = path.split('/');
+		// Dataview values may hold spaces; tags cannot
+		const name = (segments.pop() ?? '').trim();
+		if (!projectTagSegment(name) || segments.some(x => !x.trim())) return undefined;
+		const parentId = segments.length > 0 ? this.projectIdByName(segments.join('/')) : undefined;
+		if (segments.length > 0 && !parentId) {
+			debug('project:create:parentMissing', { tag, parent: segments.join('/') });
+			return undefined;
+		}
+		const id = this.service.createProject(name, parentId);
+		debug('project:create', { tag, id, parentId });
+		this.projects = [...this.projects, { id, name, parentId: parentId ?? null } as unknown as Project];
+		this.rebuildProjectTags();
+		return id;
+	}
+
+	/**
+	 * Section of a task line: the last segment of a #Project/Section tag, else a §Section marker
+	 * (or Dataview [section:: ...] field) looked up in the line's project, or in `projectId` for lines without one.
+	 */
+	private findLineSection(line: string, projectId: string | undefined): string | undefined {
+		const tag = this.lineProjectTag(line);
+		const match = tag ? this.matchProjectTag(tag) : undefined;
+		if (match?.sectionId) return match.sectionId;
+		let name: string | undefined;
+		if (this.lineFormat === 'dataview') {
+			name = readInlineFields(line).section;
+		} else {
+			const span = this.lineSpans(line).find(x => x.kind === 'section');
+			name = span ? line.slice(span.start + 1, span.end) : undefined;
+		}
+		const inProject = match?.id ?? projectId;
+		if (!name || !inProject) return undefined;
+		const ids = this.projectTags.findSections(inProject, name);
+		if (ids.length !== 1) debug('section:unresolved', { name, projectId: inProject, matches: ids.length });
+		return ids.length === 1 ? ids[0] : undefined;
+	}
+
+	private projectIdByName(name: string): string | undefined {
+		return this.matchProjectTag(name)?.id;
+	}
+
+	// A project tag, path or name; an ambiguous one resolves to nothing and warns once instead of guessing
+	private matchProjectTag(name: string): { id: string; sectionId?: string } | undefined {
+		let match = this.projectTags.match(name);
+		const unprefixed = match.kind === 'none' ? this.stripProjectCreatePrefix(name) : undefined;
+		if (unprefixed) match = this.projectTags.match(unprefixed);
+		if (match.kind === 'project') return match;
+		if (match.kind === 'ambiguous' && !this.warnedProjectTags.has(name.toLowerCase())) {
+			this.warnedProjectTags.add(name.toLowerCase());
+			const candidates = match.ids.map(id => this.projectTags.describe(id)).join(', ');
+			debug('project:ambiguous', { name, candidates });
+			new Notice(`Obsidoist: "${name}" matches several projects (${candidates}). Write the parent path, like #Parent/${name}, or add a project tag alias.`);
+		}
+		return undefined;
+	}
+
+	// Ambiguous tags still count as project tags, so they are not sent as labels
+	private isProjectTagName(name: string): boolean {
+		return this.projectTags.match(name).kind !== 'none' || this.stripProjectCreatePrefix(name) !== undefined;
+	}
+
+	// Project as written on a line: its tag, or for Dataview its name when that alone identifies it.
+	// The tag formats add the section to the tag path; Dataview writes it in its own field.
+	private projectLineName(projectId: string, sectionId?: string): string | undefined {
+		const name = this.projects.find(x => x.id === projectId)?.name;
+		if (this.lineFormat === 'dataview') {
+			const match = name ? this.projectTags.match(name) : undefined;
+			if (match?.kind === 'project' && match.id === projectId && !match.sectionId) return name;
+			return this.projectTags.tagFor(projectId);
+		}
+		return sectionId ? this.projectTags.sectionTagFor(projectId, sectionId) : this.projectTags.tagFor(projectId);
+	}
+
+	// Returns the Todoist label name for a #tag / @label token, or undefined if the token is not a label
+	private resolveLabelName(sigil: string, name: string): string | undefined {
+		if (sigil === '#') {
+			if (`#${name}`.toLowerCase() === this.settings.syncTag.toLowerCase()) return undefined;
+			if (/^\d+$/.test(name)) return undefined;
+			if (this.isProjectTagName(name)) return undefined;
+		}
+		const normalized = name.toLowerCase();
+		const known = this.service.getCachedLabels().find(l => l.name.replace(/\s+/g, '').toLowerCase() === normalized);
+		return known ? known.name : name;
+	}
+
+	private extractLabels(line: string): string[] {
+		const labels: string[] = [];
+		for (const span of this.lineSpans(line)) {
+			if (span.kind !== 'label') continue;
+			const label = this.resolveLabelName(line[span.start], line.slice(span.start + 1, span.end));
+			if (label && !labels.includes(label)) labels.push(label);
+		}
+		return labels;
+	}
+
     // Helper to check if a line contains the sync tag as a proper tag
     private hasSyncTag(line: string): boolean {
         const tag = this.settings.syncTag;
@@ -124,37 +418,176 @@ export class SyncManager {
         return line.includes(tag);
     }
 
+	// Open checkboxes without an ID are new tasks in a note covered by a sync rule, tagged or not
+	private isNewTaskLine(line: string, status: string): boolean {
+		return this.hasSyncTag(line) || (this.noteRule !== undefined && status === ' ');
+	}
+
+	noteSyncRule(file: TFile): NoteSyncRule | undefined {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		return resolveNoteSyncRule(file.path, frontmatter, this.settings.folderSyncRules ?? [], this.settings.syncExcludedPaths ?? []);
+	}
+
+	// A note can pick its own format in frontmatter; otherwise the global setting applies
+	private resolveLineFormat(file: TFile): LineFormat {
+		const value: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[LINE_FORMAT_FRONTMATTER_KEY];
+		return isLineFormat(value) ? value : this.settings.lineFormat ?? 'obsidoist';
+	}
+
+	/**
+	 * Splits a task line into the spans Obsidoist reads (ID, tags, markers, fields) in reading order.
+	 * Everything between them is task content; syncDown edits spans in place so the rest of the line is kept.
+	 */
+	private lineSpans(line: string): LineSpan[] {
+		const body = line.match(TASK_PREFIX_REGEX)?.[0].length ?? 0;
+		const spans: LineSpan[] = [];
+		const add = (kind: SpanKind, start: number, end: number) => {
+			while (end > start && /\s/.test(line[end - 1])) end--;
+			if (start < body || end <= start || spans.some(x => start < x.end && x.start < end)) return;
+			spans.push({ kind, start, end });
+		};
+		// For patterns starting with a (^|\s) group, the span begins after that group
+		const first = (regex: RegExp, kind: SpanKind, lead = false) => {
+			const m = line.slice(body).match(regex);
+			if (m?.index === undefined) return;
+			const start = body + m.index + (lead ? m[1].length : 0);
+			add(kind, start, body + m.index + m[0].length);
+		};
+
+		const storedId = findTaskId(line.slice(body));
+		if (storedId) add('id', body + storedId.start, body + storedId.end);
+		first(/(\s)\^[\w-]+\s*$/, 'blockRef', true);
+		for (const field of formatFieldSpans(this.lineFormat, line)) add(field.slot ?? 'meta', field.start, field.end);
+		// Dataview lines keep emoji markers as plain metadata
+		const emoji = (kind: SpanKind): SpanKind => (this.lineFormat === 'dataview' ? 'meta' : kind);
+		first(this.recurrenceRegex, emoji('recurrence'));
+		first(this.dueStringRegex, emoji('dueText'), true);
+		first(this.dueRegex, emoji('due'));
+		first(this.priorityRegex, emoji('priority'), true);
+		// Only a § marker naming a known section is metadata, so text like '§5' stays content
+		const section = this.lineFormat === 'dataview' ? null : line.slice(body).match(/(^|\s)§([^\s#@[\]§]+)/u);
+		if (section?.index !== undefined && this.projectTags.isSectionName(section[2])) {
+			const start = body + section.index + section[1].length;
+			add('section', start, start + 1 + section[2].length);
+		}
+
+		const syncTag = this.settings.syncTag.toLowerCase();
+		let hasSyncTag = false;
+		for (const m of line.slice(body).matchAll(this.labelTokenRegex)) {
+			const start = body + (m.index ?? 0) + m[1].length;
+			const end = start + m[2].length + m[3].length;
+			if (!hasSyncTag && `${m[2]}${m[3]}`.toLowerCase() === syncTag) {
+				hasSyncTag = true;
+				add('syncTag', start, end);
+			} else if (m[2] === '#' && this.isProjectTagName(m[3])) {
+				add('project', start, end);
+			} else if (this.resolveLabelName(m[2], m[3])) {
+				add('label', start, end);
+			}
+		}
+		return spans.sort((a, b) => a.start - b.start);
+	}
+
+	// The runs of a line between its spans, i.e. the task content as written
+	private textSpans(line: string, spans: LineSpan[]): { start: number; end: number }[] {
+		const body = line.match(TASK_PREFIX_REGEX)?.[0].length ?? 0;
+		const runs: { start: number; end: number }[] = [];
+		let cursor = body;
+		for (const bound of [...spans, { start: line.length, end: line.length }]) {
+			const text = line.slice(cursor, bound.start);
+			if (text.trim()) {
+				const start = cursor + text.length - text.trimStart().length;
+				runs.push({ start, end: cursor + text.trimEnd().length });
+			}
+			cursor = Math.max(cursor, bound.end);
+		}
+		return runs;
+	}
+
     // Helper to extract clean content
-    private extractContent(line: string, stripProjectTags: boolean = false): string {
-         let content = line.replace(/^(\s*)-\s\[(.)\]\s+/, '')
-            .replace(this.idRegex, '')
-            .replace(this.dueRegex, '')
-            .replace(this.settings.syncTag, '') // Also strip the sync tag
-            .trim();
-            
-         if (stripProjectTags) {
-             // Also strip tags that match known projects
-             for (const project of this.projects) {
-                const normalizedProjectName = project.name.replace(/\s+/g, '');
-                // Regex to replace #ProjectName case insensitive
-                const tagRegex = new RegExp(`#${normalizedProjectName}`, 'gi');
-                content = content.replace(tagRegex, '');
-             }
-             // Clean up potential double spaces left behind
-             content = content.replace(/\s+/g, ' ').trim();
-         }
-         
-         return content;
+    private extractContent(line: string): string {
+        const runs = this.textSpans(line, this.lineSpans(line));
+        return runs.map(r => line.slice(r.start, r.end)).join(' ').replace(/\s+/g, ' ').trim();
     }
 
     private extractDueDate(line: string): string | undefined {
-        const match = line.match(this.dueRegex);
-        return match?.[1];
+        const match = this.lineFormat === 'dataview' ? readInlineFields(line).due?.match(INLINE_DUE_REGEX) : line.match(this.dueRegex);
+        return match ? toDueValue(match[1], match[2]) : undefined;
     }
 
+	private extractRecurrence(line: string): string | undefined {
+		if (this.lineFormat === 'dataview') return readInlineFields(line).repeat || undefined;
+		const match = line.match(this.recurrenceRegex);
+		return match ? match[1].trim() || undefined : undefined;
+	}
+
+	// Natural-language due text on the line: a `due:` marker (or non-date [due:: ...]), or else the recurrence rule
+	private extractDueString(line: string): string | undefined {
+		if (this.lineFormat === 'dataview') {
+			const due = readInlineFields(line).due;
+			return (due && !INLINE_DUE_REGEX.test(due) ? due : undefined) ?? this.extractRecurrence(line);
+		}
+		const match = line.match(this.dueStringRegex);
+		return (match ? match[2].trim() || undefined : undefined) ?? this.extractRecurrence(line);
+	}
+
+	// A time zone only applies to due dates with a time; without one the time floats
+	private extractDueTimezone(line: string): string | undefined {
+		if (this.lineFormat === 'dataview') {
+			const fields = readInlineFields(line);
+			return fields.due?.match(INLINE_DUE_REGEX)?.[2] ? fields.timezone || undefined : undefined;
+		}
+		const match = line.match(this.dueRegex);
+		return match?.[2] ? match[3] : undefined;
+	}
+
+	// The indented, non-checkbox lines directly below a task line form its description
+	private extractDescription(lines: string[], index: number): { text: string; start: number; end: number } {
+		const indent = indentWidth(lines[index]);
+		const start = index + 1;
+		let end = start;
+		for (let j = start; j < lines.length; j++) {
+			const line = lines[j];
+			if (isBlankLine(line)) continue;
+			if (indentWidth(line) <= indent || isCheckboxLine(line)) break;
+			end = j + 1;
+		}
+
+		const block = lines.slice(start, end);
+		const base = indentOf(block.find(l => !isBlankLine(l)) ?? '');
+		const text = block.map(l => (l.startsWith(base) ? l.slice(base.length) : l.trimStart())).join('\n');
+		return { text: normalizeDescription(text), start, end };
+	}
+
+	private replaceDescription(lines: string[], id: TaskId, description: string): boolean {
+		const index = this.findTaskLine(lines, id);
+		if (index < 0) return false;
+		const current = this.extractDescription(lines, index);
+		const firstLine = lines.slice(current.start, current.end).find(l => !isBlankLine(l));
+		const indent = firstLine ? indentOf(firstLine) : indentOf(lines[index]) + indentUnit(lines);
+		const text = normalizeDescription(description);
+		const next = text ? text.split('\n').map(l => (l ? indent + l : '')) : [];
+		lines.splice(current.start, current.end - current.start, ...next);
+		return true;
+	}
+
+	// The priority marker as written: an emoji / p1..p4 token, or the Dataview [priority:: ...] value
+	private extractPriorityMarker(line: string): string | undefined {
+		if (this.lineFormat === 'dataview') return readInlineFields(line).priority || undefined;
+		const body = line.replace(TASK_PREFIX_REGEX, '');
+		return body.match(this.priorityRegex)?.[2];
+	}
+
+	private extractPriority(line: string): number | undefined {
+		const marker = this.extractPriorityMarker(line);
+		return marker ? PRIORITY_BY_MARKER[marker.toLowerCase()] : undefined;
+	}
+
 	async scanAndSyncFile(file: TFile, opts?: { primedCache?: boolean }) {
 		if (!file) return;
 		debug(`Scanning file: ${file.path}`);
+		this.lineFormat = this.resolveLineFormat(file);
+		this.noteRule = this.noteSyncRule(file);
 		const content = await this.app.vault.read(file);
 		const lines = content.split('\n');
 		let modified = false;
@@ -163,23 +596,31 @@ export class SyncManager {
 		// Ensure we have projects loaded for mapping
 		await this.ensureProjects();
 
-		if (!opts?.primedCache && /\[todoist_id:/.test(content) && this.service.getLastFullSyncAt() === undefined) {
+		if (!opts?.primedCache && hasTaskId(content) && this.service.getLastFullSyncAt() === undefined) {
 			await this.service.syncNow();
 			await this.scanAndSyncFile(file, { primedCache: true });
 			return;
 		}
 
+		const parents = new ParentTracker();
+		// Completed copies of recurring tasks, inserted above their task once all lines are scanned
+		const completedCopies: { id: TaskId; line: string }[] = [];
+		const inert = findInertLines(lines);
+
 		for (let i = 0; i < lines.length; i++) {
+			if (inert.has(i)) continue;
 			const line = lines[i];
+			const parentId = parents.enter(line);
             
             // Try detecting existing ID first with flexible regex
-            const idMatch = line.match(this.idRegex);
+            const idMatch = findTaskId(line);
             
 			if (idMatch) {
 				// Existing task with ID
-				const rawId = idMatch[1];
+				const rawId = idMatch.id;
 				const existingId = this.service.resolveTaskId(rawId);
-				const statusMatch = line.match(/^(\s*)-\s\[(.)\]/);
+				const statusMatch = line.match(TASK_PREFIX_REGEX);
+				parents.push(line, statusMatch ? existingId : undefined);
 
 				if (!opts?.primedCache && /^\d+$/.test(existingId) && !this.service.getCachedTask(existingId)) {
 					await this.service.syncNow();
@@ -188,7 +629,7 @@ export class SyncManager {
 				}
 
                 if (rawId !== existingId) {
-                    newLines[i] = newLines[i].replace(`[todoist_id:${rawId}]`, `[todoist_id:${existingId}]`);
+                    newLines[i] = replaceTaskId(newLines[i], existingId);
                     modified = true;
 					this.service.moveLineShadow(rawId, existingId);
                 }
@@ -198,18 +639,22 @@ export class SyncManager {
                     const isCompleted = status !== ' ';
                     
                     // Extract content - use consistent extraction method
-					const taskContent = this.extractContent(line, true);
+					const taskContent = this.extractContent(line);
 					const dueDate = this.extractDueDate(line);
-					const rawContentWithTags = this.extractContent(line, false);
-					const tagProjectId = this.findProjectByTag(rawContentWithTags);
+					const dueTimezone = this.extractDueTimezone(line);
+					const dueString = this.extractDueString(line);
+					const priority = this.extractPriority(line) ?? 1;
+					const labels = this.extractLabels(line);
+					const description = this.extractDescription(lines, i).text;
+					const tagProjectId = this.ensureLineProject(line);
 
 					const cached = this.service.getCachedTask(existingId);
+					const lineSectionId = this.findLineSection(line, cached?.projectId);
 
-					const currentSig = { content: taskContent, dueDate, projectId: tagProjectId, isCompleted };
-					let prevSig = this.service.getLineShadow(existingId);
-					if (!prevSig && cached) {
-						prevSig = { content: cached.content, dueDate: cached.dueDate, projectId: cached.projectId, isCompleted: cached.isCompleted };
-					}
+					const currentSig: LineShadow = { content: taskContent, dueDate, dueTimezone, dueString, projectId: tagProjectId, sectionId: lineSectionId, parentId, isCompleted, priority, labels, description };
+					const remoteSig = cached ? this.cachedSig(cached, parentId) : undefined;
+					// Without a shadow the line's previous nesting is unknown, so the parent is treated as unchanged
+					const prevSig = this.service.getLineShadow(existingId) ?? remoteSig;
 					if (!prevSig) {
 						debug('scan:missingPrevSig', { id: existingId, hasCached: Boolean(cached), isCompleted: currentSig.isCompleted });
 						this.service.setLineShadow(existingId, currentSig);
@@ -217,58 +662,139 @@ export class SyncManager {
 					}
 					if (this.sigEquals(prevSig, currentSig)) {
 						debug('scan:noChange', { id: existingId, isCompleted: currentSig.isCompleted });
+						this.service.clearConflict(existingId);
 						continue;
 					}
 
-					if (prevSig.content !== currentSig.content || (prevSig.dueDate ?? undefined) !== (currentSig.dueDate ?? undefined)) {
-						debug('scan:enqueue:update', { id: existingId });
-						const success = await this.service.updateTask(existingId, taskContent, dueDate);
-						if (success) new Notice(`Updated Todoist task: ${taskContent.substring(0, 20)}...`);
+					// A line without a project tag or section leaves them to Todoist
+					const localChanges = changedFields(prevSig, currentSig).filter(f => f !== 'project' || Boolean(tagProjectId || lineSectionId));
+					// Fields to keep as they are in Todoist: those only changed there, and conflicts settled in their favour
+					const keepRemote = new Set<ConflictField>();
+					if (remoteSig) {
+						for (const field of changedFields(prevSig, remoteSig)) {
+							if (!localChanges.includes(field)) keepRemote.add(field);
+						}
+						const conflicts = findConflicts(prevSig, currentSig, remoteSig).filter(f => localChanges.includes(f));
+						if (conflicts.length > 0) {
+							const policy = this.settings.conflictPolicy;
+							debug('scan:conflict', { id: existingId, fields: conflicts, policy });
+							if (policy === 'ask') {
+								// Left unsynced, and syncDown leaves the line alone, until the conflict is resolved
+								this.service.setConflict(existingId, { path: file.path, fields: conflicts, base: prevSig, local: currentSig, remote: remoteSig, detectedAt: Date.now() });
+								continue;
+							}
+							const remoteWins = policy === 'remote'
+								|| (policy === 'newest' && (cached?.remoteUpdatedAt ?? 0) > file.stat.mtime);
+							if (remoteWins) conflicts.forEach(f => keepRemote.add(f));
+						}
 					}
+					this.service.clearConflict(existingId);
+					const pushes = (field: ConflictField) => localChanges.includes(field) && !keepRemote.has(field);
+					const pushSig = remoteSig ? copyFields(currentSig, remoteSig, Array.from(keepRemote)) : currentSig;
 
-					if (currentSig.projectId && (prevSig.projectId ?? undefined) !== currentSig.projectId) {
-						debug('scan:enqueue:move', { id: existingId, projectId: currentSig.projectId });
-						await this.service.moveTask(existingId, currentSig.projectId);
+					if (pushes('content') || pushes('due') || pushes('priority') || pushes('labels') || pushes('description')) {
+						debug('scan:enqueue:update', { id: existingId, fields: localChanges.filter(pushes) });
+						const dueStringChanged = (prevSig.dueString ?? undefined) !== (dueString ?? undefined);
+						// Only send the due date when it changed, so a removed marker clears it on Todoist.
+						// New due text is left to Todoist to resolve; a date edit keeps the recurring rule still on the line.
+						const due: TaskFields = !pushes('due')
+							? {}
+							: dueStringChanged && dueString
+								? { dueString }
+								: { dueDate: dueDate ?? null, dueTimezone, dueString: this.extractRecurrence(line) };
+						// Fields not edited on the line are left out, so values set in Todoist are not overwritten
+						const success = await this.service.updateTask(existingId, pushSig.content, {
+							...due,
+							priority: pushes('priority') ? pushSig.priority : undefined,
+							labels: pushes('labels') ? pushSig.labels : undefined,
+							description: pushes('description') ? pushSig.description : undefined
+						});
+						if (success) new Notice(`Updated Todoist task: ${pushSig.content.substring(0, 20)}...`);
 					}
 
-					if (prevSig.isCompleted !== currentSig.isCompleted) {
+					if (!this.sameTaskId(prevSig.parentId, parentId)) {
+						// Re-indented: nest under the new parent, or move back to the top level of the project
+						const targetProjectId = currentSig.projectId ?? cached?.projectId;
+						if (parentId) {
+							debug('scan:enqueue:reparent', { id: existingId, parentId });
+							await this.service.reparentTask(existingId, parentId);
+						} else if (targetProjectId) {
+							debug('scan:enqueue:unparent', { id: existingId, projectId: targetProjectId, sectionId: lineSectionId });
+							await this.service.moveTask(existingId, targetProjectId, lineSectionId);
+						}
+					} else if (!parentId && pushes('project')) {
+						// A section alone moves the task within its current project
+						const targetProjectId = currentSig.projectId ?? cached?.projectId;
+						if (targetProjectId) {
+							debug('scan:enqueue:move', { id: existingId, projectId: targetProjectId, sectionId: lineSectionId });
+							await this.service.moveTask(existingId, targetProjectId, lineSectionId);
+						}
+					}
+
+					if (prevSig.isCompleted !== currentSig.isCompleted && currentSig.isCompleted && this.service.isRecurringTask(existingId)) {
+						debug('scan:enqueue:completeRecurring', { id: existingId });
+						await this.service.closeTask(existingId);
+						// The task stays open on its next occurrence: reset the box and let syncDown bring the new date
+						newLines[i] = withTaskStatus(newLines[i], ' ');
+						modified = true;
+						currentSig.isCompleted = false;
+						if (this.settings.logRecurringCompletions) completedCopies.push({ id: existingId, line: this.renderCompletedCopy(line) });
+					} else if (prevSig.isCompleted !== currentSig.isCompleted) {
 						debug('scan:enqueue:toggle', { id: existingId, from: prevSig.isCompleted, to: currentSig.isCompleted });
 						if (currentSig.isCompleted) await this.service.closeTask(existingId);
 						else await this.service.reopenTask(existingId);
+						const stamped = setDoneDate(this.lineFormat, newLines[i], currentSig.isCompleted ? todayDueValue() : undefined);
+						if (stamped !== newLines[i]) {
+							newLines[i] = stamped;
+							modified = true;
+						}
 					}
 
 					this.service.setLineShadow(existingId, currentSig);
 				}
 			} else {
                 // No ID found, check if it is a NEW task candidate
-                const taskMatch = line.match(/^(\s*)-\s\[(.)\]/);
-                if (taskMatch && this.hasSyncTag(line)) {
+                const taskMatch = line.match(TASK_PREFIX_REGEX);
+                if (!taskMatch || !this.isNewTaskLine(line, taskMatch[2])) {
+					parents.push(line);
+				} else {
                     const status = taskMatch[2];
                     const isCompleted = status !== ' ';
                     
-                    // First extract content WITH tags to determine project
-                    const rawContent = this.extractContent(line, false);
 					const dueDate = this.extractDueDate(line);
+					const dueTimezone = this.extractDueTimezone(line);
+					const dueString = this.extractDueString(line);
+					const priority = this.extractPriority(line);
+					const labels = this.extractLabels(line);
+					const description = this.extractDescription(lines, i).text;
 
-                    // Determine Project ID
+                    // Determine Project ID: a project tag, then the note's sync rule, then the default project
                     let projectId = this.settings.defaultProjectId;
-                    const tagProjectId = this.findProjectByTag(rawContent);
+                    const rule = this.noteRule?.project ? this.matchProjectTag(this.noteRule.project) : undefined;
+                    if (this.noteRule?.project && !rule) debug('scan:ruleProjectMissing', { project: this.noteRule.project });
+                    const lineProjectId = this.ensureLineProject(line);
+                    const tagProjectId = lineProjectId ?? rule?.id;
                     if (tagProjectId) {
                         projectId = tagProjectId;
                     }
+                    // The rule's section only applies to lines that do not name their own project
+                    const sectionId = this.findLineSection(line, projectId || undefined) ?? (lineProjectId ? undefined : rule?.sectionId);
+                    // Rule labels are only added on creation; syncDown then writes them onto the line
+                    const taskLabels = [...labels, ...(this.noteRule?.labels ?? []).filter(l => !labels.some(x => x.toLowerCase() === l.toLowerCase()))];
                     
                     // Now get CLEAN content for Todoist (without project tags)
-                    const cleanContent = this.extractContent(line, true);
+                    const cleanContent = this.extractContent(line);
 
                     const apiProjectId = projectId === '' ? undefined : projectId;
 
-					debug(`Creating task: ${cleanContent} in project ${apiProjectId || 'Inbox'}`);
-					const task = await this.service.createTask(cleanContent, apiProjectId, dueDate);
+					debug(`Creating task: ${cleanContent} in project ${apiProjectId || 'Inbox'}`, { parentId });
+					const task = await this.service.createTask(cleanContent, apiProjectId, { dueDate, dueTimezone, dueString, priority, labels: taskLabels, description, sectionId }, parentId);
+					parents.push(line, task?.id);
 					if (task) {
-						newLines[i] = `${lines[i]} [todoist_id:${task.id}]`;
+						newLines[i] = appendTaskId(this.lineFormat, setDoneDate(this.lineFormat, lines[i], isCompleted ? todayDueValue() : undefined), task.id, this.settings.taskIdFormat);
 						modified = true;
 
-						this.service.setLineShadow(task.id, { content: cleanContent, dueDate, projectId: apiProjectId, isCompleted });
+						this.service.setLineShadow(task.id, { content: cleanContent, dueDate, dueTimezone, dueString, projectId: apiProjectId, sectionId, parentId, isCompleted, priority: priority ?? 1, labels, description });
 						new Notice(`Created Todoist task: ${cleanContent.substring(0, 20)}...`);
 
                         if (isCompleted) {
@@ -279,6 +805,11 @@ export class SyncManager {
             }
         }
 
+		for (const { id, line } of completedCopies) {
+			const at = this.findTaskLine(newLines, id);
+			if (at >= 0) newLines.splice(at, 0, line);
+		}
+
         if (modified) {
 			debug('Modifying file with new IDs.');
 			this.lastInternalModifyAtByPath.set(file.path, Date.now());
@@ -288,26 +819,35 @@ export class SyncManager {
 
     async syncDown(file: TFile) {
 		debug(`Syncing down for ${file.path}`);
+		this.lineFormat = this.resolveLineFormat(file);
         await this.ensureProjects();
         const content = await this.app.vault.read(file);
         const lines = content.split('\n');
         let modified = false;
         
         const newLines = [...lines];
+		const parents = new ParentTracker();
+		// Tasks whose parent changed in Todoist; their blocks are moved once all lines are updated
+		const reparented: { id: TaskId; parentId?: TaskId }[] = [];
+		const descriptionEdits: { id: TaskId; description: string }[] = [];
+		const inert = findInertLines(lines);
 
         for (let i = 0; i < lines.length; i++) {
+			if (inert.has(i)) continue;
             const line = lines[i];
+			const localParentId = parents.enter(line);
             
             // Flexible ID detection
-            const idMatch = line.match(this.idRegex);
+            const idMatch = findTaskId(line);
+			parents.push(line, idMatch && isCheckboxLine(line) ? this.service.resolveTaskId(idMatch.id) : undefined);
             
             if (idMatch) {
-                const rawId = idMatch[1];
+                const rawId = idMatch.id;
                 const existingId = this.service.resolveTaskId(rawId);
                 const cachedTask = this.service.getCachedTask(existingId);
 
                 if (rawId !== existingId) {
-                    newLines[i] = newLines[i].replace(`[todoist_id:${rawId}]`, `[todoist_id:${existingId}]`);
+                    newLines[i] = replaceTaskId(newLines[i], existingId);
                     modified = true;
 					this.service.moveLineShadow(rawId, existingId);
                 }
@@ -318,40 +858,50 @@ export class SyncManager {
 							continue;
 						}
 						if (cachedTask.isDeleted) {
-							const indentMatch = line.match(/^(\s*)/);
-							const indent = indentMatch ? indentMatch[1] : '';
+							const indent = indentOf(line);
 							let rest = line.slice(indent.length);
-							rest = rest.replace(this.idRegex, '').replace(this.settings.syncTag, '').replace(/\s+/g, ' ').trim();
+							rest = removeTaskId(rest).replace(this.settings.syncTag, '').replace(/\s+/g, ' ').trim();
 							newLines[i] = indent + rest;
 							modified = true;
 							continue;
 						}
-                        const statusMatch = line.match(/^(\s*)-\s\[(.)\]/);
+                        const statusMatch = line.match(TASK_PREFIX_REGEX);
                         if (statusMatch) {
                             const currentStatus = statusMatch[2];
                             const remoteStatus = cachedTask.isCompleted ? 'x' : ' ';
                             
                             // Extract local content to compare
-                            const localContent = this.extractContent(line, true);
+                            const localContent = this.extractContent(line);
                             const remoteContent = cachedTask.content;
 						const localDueDate = this.extractDueDate(line);
 						const remoteDueDate = cachedTask.dueDate;
+						const localDueTimezone = this.extractDueTimezone(line);
+						const remoteDueTimezone = cachedTask.dueTimezone;
+						// Only a recurring rule stays on the line; other due text is replaced by the date Todoist resolved
+						const localDueString = this.extractDueString(line);
+						const remoteDueString = cachedTask.isRecurring ? cachedTask.dueString : undefined;
+						const localPriority = this.extractPriority(line) ?? 1;
+						const remotePriority = cachedTask.priority ?? 1;
+						const localLabels = this.extractLabels(line);
+						const remoteLabels = cachedTask.labels ?? [];
+						const localDescription = this.extractDescription(lines, i).text;
+						const remoteDescription = normalizeDescription(cachedTask.description);
 
-						let localProjectId: string | undefined = undefined;
-						for (const project of this.projects) {
-							const normalizedProjectName = project.name.replace(/\s+/g, '');
-							const tag = `#${normalizedProjectName}`;
-							if (new RegExp(tag, 'i').test(line)) {
-								localProjectId = project.id;
-								break;
-							}
-						}
+						const localProjectId = this.findLineProject(line);
+						const localSectionId = this.findLineSection(line, cachedTask.projectId);
 
-						const localSig = {
+						const localSig: LineShadow = {
 							content: localContent,
 							isCompleted: currentStatus !== ' ',
 							projectId: localProjectId,
-							dueDate: localDueDate
+							sectionId: localSectionId,
+							parentId: localParentId,
+							dueDate: localDueDate,
+							dueTimezone: localDueTimezone,
+							dueString: localDueString,
+							priority: localPriority,
+							labels: localLabels,
+							description: localDescription
 						};
 
 						const shadowSig = this.service.getLineShadow(existingId);
@@ -375,45 +925,86 @@ export class SyncManager {
 							}
 
 						// Check due date
-						if ((localDueDate ?? undefined) !== (remoteDueDate ?? undefined)) {
+						if ((localDueDate ?? undefined) !== (remoteDueDate ?? undefined) || (localDueTimezone ?? undefined) !== (remoteDueTimezone ?? undefined)) {
 							lineModified = true;
 						}
 
-						// Check project
-						if ((localProjectId ?? undefined) !== (cachedTask.projectId ?? undefined)) {
+						// Check due string
+						if ((localDueString ?? undefined) !== (remoteDueString ?? undefined)) {
+							debug(`Task ${existingId} due string changed: ${localDueString} -> ${remoteDueString}`);
 							lineModified = true;
 						}
-                            
-                            if (lineModified) {
-                                const indentMatch = line.match(/^(\s*)-\s/);
-                                const indent = indentMatch ? indentMatch[1] : '';
 
-							let dueSuffix = '';
-							if (remoteDueDate) {
-								dueSuffix = ` 🗓 ${remoteDueDate}`;
-							}
+						// Check project and section
+						if ((localProjectId ?? undefined) !== (cachedTask.projectId ?? undefined) || (localSectionId ?? undefined) !== (cachedTask.sectionId ?? undefined)) {
+							lineModified = true;
+						}
 
-							let projectTag = '';
-							if (cachedTask.projectId) {
-								const p = this.projects.find(x => x.id === cachedTask.projectId);
-								if (p) projectTag = ` #${p.name.replace(/\s+/g, '')}`;
-							}
+						// Check priority
+						if (localPriority !== remotePriority) {
+							debug(`Task ${existingId} priority changed: ${localPriority} -> ${remotePriority}`);
+							lineModified = true;
+						}
 
-							newLines[i] = `${indent}- [${remoteStatus}] ${remoteContent}${dueSuffix} ${this.settings.syncTag}${projectTag} [todoist_id:${existingId}]`;
-							newLines[i] = newLines[i].replace(/\s+/g, ' ');
-                                
+						// Check labels
+						if (!this.labelsEqual(localLabels, remoteLabels)) {
+							debug(`Task ${existingId} labels changed`, { from: localLabels, to: remoteLabels });
+							lineModified = true;
+						}
+                            
+						// Check description (block edits are applied after all lines are updated)
+						// Without a shadow, notes under the line may never have been synced; they are kept and the
+						// shadow records no description, so the next scan pushes them or reports a conflict
+						const keepLocalDescription = !shadowSig && localDescription !== '' && localDescription !== remoteDescription;
+						const descriptionModified = localDescription !== remoteDescription;
+						if (descriptionModified && !keepLocalDescription) {
+							debug(`Task ${existingId} description changed`);
+							descriptionEdits.push({ id: existingId, description: remoteDescription });
+						}
+                            
+                            if (lineModified) {
+								newLines[i] = this.patchTaskLine(line, existingId);
                                 modified = true;
+							}
+
+							if (lineModified || descriptionModified) {
 								this.service.setLineShadow(existingId, {
 									content: remoteContent,
 									isCompleted: cachedTask.isCompleted,
 									projectId: cachedTask.projectId,
-									dueDate: remoteDueDate
+									sectionId: cachedTask.sectionId,
+									parentId: localParentId,
+									dueDate: remoteDueDate,
+									dueTimezone: remoteDueTimezone,
+									dueString: remoteDueString,
+									priority: remotePriority,
+									labels: remoteLabels,
+									description: keepLocalDescription ? '' : remoteDescription
 								});
                             }
+
+						// Check parent (nesting is applied after all lines are updated)
+						if (!this.sameTaskId(localParentId, cachedTask.parentId)) {
+							reparented.push({ id: existingId, parentId: cachedTask.parentId });
+						}
                         }
                     }
             }
         }
+
+		for (const { id, description } of descriptionEdits) {
+			if (this.replaceDescription(newLines, id, description)) modified = true;
+		}
+
+		for (const { id, parentId } of reparented) {
+			if (!this.relocateTaskBlock(newLines, id, parentId)) continue;
+			debug(`Task ${id} moved under ${parentId ?? 'top level'}`);
+			modified = true;
+			const shadow = this.service.getLineShadow(id);
+			if (shadow) this.service.setLineShadow(id, { ...shadow, parentId });
+		}
+
+		if (this.insertUnlinkedSubtasks(newLines)) modified = true;
         
         if (modified) {
 			debug('Modifying file with updates.');
@@ -424,35 +1015,394 @@ export class SyncManager {
         }
     }
 
+	// Renders a new line for a task from the cache
+	private renderTaskLine(indent: string, id: TaskId): string {
+		const task = this.service.getCachedTask(id);
+		if (!task) return '';
+		const markers = this.lineFormat === 'dataview' ? NAME_BY_PRIORITY : MARKER_BY_PRIORITY;
+		return indent + renderTaskLineBody(this.lineFormat, {
+			status: task.isCompleted ? 'x' : ' ',
+			content: task.content,
+			priorityMarker: markers[task.priority ?? 1],
+			recurrence: task.isRecurring ? task.dueString : undefined,
+			due: task.dueDate ? formatDueValue(task.dueDate) : undefined,
+			dueTimezone: task.dueTimezone,
+			project: task.projectId ? this.projectLineName(task.projectId, task.sectionId) : undefined,
+			section: this.lineFormat === 'dataview' && task.sectionId ? this.service.getSectionName(task.sectionId) : undefined,
+			tags: [this.settings.syncTag, ...(task.labels ?? []).map(l => `#${l.replace(/\s+/g, '')}`)],
+			id,
+			idFormat: this.settings.taskIdFormat,
+			doneDate: task.isCompleted ? todayDueValue() : undefined
+		});
+	}
+
+	// Brings an existing line up to date with the cache, editing only the parts whose value changed
+	private patchTaskLine(line: string, id: TaskId): string {
+		const task = this.service.getCachedTask(id);
+		if (!task) return line;
+		const format = this.lineFormat;
+		const spans = this.lineSpans(line);
+		const span = (kind: SpanKind) => spans.find(x => x.kind === kind);
+		const edits: LineEdit[] = [];
+		const remove = (x: { start: number; end: number }) => edits.push(removalEdit(line, x.start, x.end));
+		const insert = (at: number, text: string) => edits.push({ start: at, end: at, text: ` ${text}` });
+		const before = (x: { start: number }) => line.slice(0, x.start).trimEnd().length;
+		const setSlot = (slot: FieldSlot, current: LineSpan | undefined, value: string | undefined, at: number) => {
+			const text = value ? renderField(format, slot, value) : undefined;
+			if (current && text) edits.push({ start: current.start, end: current.end, text });
+			else if (current) remove(current);
+			else if (text) insert(at, text);
+		};
+
+		// Where new fields and tags go: fields before the sync tag (Obsidoist) or at the end of the line,
+		// tags after the last tag, always ahead of a trailing block reference (or an ID stored as one)
+		const idSpan = span('id');
+		const blockRef = span('blockRef') ?? (idSpan && line[idSpan.start] === '^' ? idSpan : undefined);
+		const lineEnd = blockRef ? before(blockRef) : line.trimEnd().length;
+		const syncTag = span('syncTag');
+		const fieldsAt = format === 'obsidoist' ? (syncTag ? before(syncTag) : idSpan ? before(idSpan) : lineEnd) : lineEnd;
+		const lastTag = [...spans].reverse().find(x => x.kind === 'syncTag' || x.kind === 'project' || x.kind === 'label');
+		const tagsAt = lastTag ? lastTag.end : idSpan ? before(idSpan) : lineEnd;
+		// Tags inserted where fields go too (a line ending with a block ID) are put ahead of the fields,
+		// except in the Obsidoist format where fields come first
+		const tagEdits = new Set<LineEdit>();
+		const asTags = (fn: () => void) => {
+			const from = edits.length;
+			fn();
+			if (format !== 'obsidoist') edits.slice(from).forEach(edit => tagEdits.add(edit));
+		};
+		// The project and section are tags, except in Dataview where they are fields
+		const setTagSlot = (slot: FieldSlot, current: LineSpan | undefined, value: string | undefined) => {
+			if (format === 'dataview') setSlot(slot, current, value, fieldsAt);
+			else asTags(() => setSlot(slot, current, value, tagsAt));
+		};
+
+		const prefix = line.match(TASK_PREFIX_REGEX);
+		if (prefix && (prefix[2] !== ' ') !== task.isCompleted) {
+			edits.push({ start: prefix[1].length, end: prefix[1].length + 1, text: task.isCompleted ? 'x' : ' ' });
+		}
+
+		this.patchContent(line, this.textSpans(line, spans), task.content, edits);
+
+		const priority = task.priority ?? 1;
+		if ((this.extractPriority(line) ?? 1) !== priority) {
+			setSlot('priority', span('priority'), (format === 'dataview' ? NAME_BY_PRIORITY : MARKER_BY_PRIORITY)[priority], fieldsAt);
+		}
+
+		const recurrence = task.isRecurring ? task.dueString : undefined;
+		if ((this.extractRecurrence(line) ?? undefined) !== (recurrence ?? undefined)) {
+			setSlot('recurrence', span('recurrence'), recurrence, fieldsAt);
+		}
+
+		// A `due:` marker has been resolved by Todoist; the date takes its place
+		let dueSpan = span('due');
+		const dueText = span('dueText');
+		if (dueText && dueSpan) remove(dueText);
+		else if (dueText) dueSpan = dueText;
+		const localDue = this.extractDueDate(line);
+		const localTimezone = this.extractDueTimezone(line);
+		if (dueSpan !== span('due') || (localDue ?? undefined) !== (task.dueDate ?? undefined) || (format !== 'dataview' && (localTimezone ?? undefined) !== (task.dueTimezone ?? undefined))) {
+			const value = task.dueDate ? formatDueValue(task.dueDate, format === 'dataview' ? undefined : task.dueTimezone) : undefined;
+			// Keep the calendar marker as written (🗓 or 📅)
+			const marker = dueSpan && format !== 'dataview' ? line.slice(dueSpan.start).match(/^(?:🗓️?|📅)/)?.[0] : undefined;
+			const index = edits.length;
+			setSlot('due', dueSpan, value, fieldsAt);
+			const edit = edits[index];
+			if (marker && edit?.text) edit.text = edit.text.replace(/^(\s?)(?:🗓|📅)/, `$1${marker}`);
+		}
+		if (format === 'dataview' && (localTimezone ?? undefined) !== (task.dueTimezone ?? undefined)) {
+			setSlot('timezone', span('timezone'), task.dueTimezone, fieldsAt);
+		}
+
+		// A section goes into the project tag unless the line keeps it apart (Dataview, or a § marker)
+		const localProjectId = this.findLineProject(line);
+		const sectionDiffers = (this.findLineSection(line, task.projectId) ?? undefined) !== (task.sectionId ?? undefined);
+		const sectionSpan = span('section');
+		const sectionApart = format === 'dataview' || Boolean(sectionSpan);
+		if ((localProjectId ?? undefined) !== (task.projectId ?? undefined) || (sectionDiffers && !sectionApart)) {
+			const name = task.projectId ? this.projectLineName(task.projectId, sectionApart ? undefined : task.sectionId) : undefined;
+			if (name || !task.projectId) setTagSlot('project', span('project'), name);
+		}
+		if (sectionDiffers && sectionApart) {
+			setTagSlot('section', sectionSpan, task.sectionId ? this.service.getSectionName(task.sectionId) : undefined);
+		}
+
+		const remoteLabels = task.labels ?? [];
+		const remoteKeys = remoteLabels.map(l => l.replace(/\s+/g, '').toLowerCase());
+		const localKeys: string[] = [];
+		for (const x of spans) {
+			if (x.kind !== 'label') continue;
+			const key = (this.resolveLabelName(line[x.start], line.slice(x.start + 1, x.end)) ?? '').replace(/\s+/g, '').toLowerCase();
+			if (remoteKeys.includes(key)) localKeys.push(key);
+			else remove(x);
+		}
+		for (const label of remoteLabels) {
+			if (!localKeys.includes(label.replace(/\s+/g, '').toLowerCase())) asTags(() => insert(tagsAt, `#${label.replace(/\s+/g, '')}`));
+		}
+
+		if (format !== 'obsidoist') {
+			const done = span('done');
+			if (task.isCompleted && !done) insert(lineEnd, renderField(format, 'done', todayDueValue()));
+			else if (!task.isCompleted && done) remove(done);
+		}
+
+		return applyLineEdits(line, [...edits.filter(x => tagEdits.has(x)), ...edits.filter(x => !tagEdits.has(x))]);
+	}
+
+	// Rewrites the content runs of a line, keeping runs at either end that are unchanged (e.g. a trailing link)
+	private patchContent(line: string, runs: { start: number; end: number }[], content: string, edits: LineEdit[]) {
+		const words = runs.map(r => line.slice(r.start, r.end).replace(/\s+/g, ' '));
+		const remote = content.replace(/\s+/g, ' ').trim();
+		if (words.join(' ') === remote) return;
+
+		let head = 0;
+		let rest = remote;
+		while (head < words.length && (rest === words[head] || rest.startsWith(`${words[head]} `))) {
+			rest = rest.slice(words[head].length).trimStart();
+			head++;
+		}
+		let tail = 0;
+		while (tail < words.length - head) {
+			const word = words[words.length - 1 - tail];
+			if (rest !== word && !rest.endsWith(` ${word}`)) break;
+			rest = rest.slice(0, rest.length - word.length).trimEnd();
+			tail++;
+		}
+
+		const changed = runs.slice(head, runs.length - tail);
+		if (changed.length > 0) {
+			if (rest) edits.push({ start: changed[0].start, end: changed[0].end, text: rest });
+			else edits.push(removalEdit(line, changed[0].start, changed[0].end));
+			for (const run of changed.slice(1)) edits.push(removalEdit(line, run.start, run.end));
+		} else if (rest) {
+			if (head > 0) edits.push({ start: runs[head - 1].end, end: runs[head - 1].end, text: ` ${rest}` });
+			else if (runs.length > 0) edits.push({ start: runs[0].start, end: runs[0].start, text: `${rest} ` });
+			else {
+				const body = line.match(TASK_PREFIX_REGEX)?.[0].length ?? line.length;
+				edits.push({ start: body, end: body, text: `${rest} ` });
+			}
+		}
+	}
+
+	// A plain, unsynced record of a completed occurrence: no ID, sync tag or recurrence rule
+	private renderCompletedCopy(line: string): string {
+		const prefix = line.match(TASK_PREFIX_REGEX)?.[1] ?? `${indentOf(line)}- [`;
+		const body = removeTaskId(line.replace(TASK_PREFIX_REGEX, ''))
+			.replace(this.recurrenceRegex, '')
+			.replace(/\s*[[(]repeat::[^\])]*[\])]/i, '')
+			.replace(this.settings.syncTag, '')
+			.replace(/\s+/g, ' ')
+			.trim();
+		const copy = `${prefix}x] ${body}`;
+		return this.lineFormat === 'obsidoist' ? `${copy} ✅ ${todayDueValue()}` : setDoneDate(this.lineFormat, copy, todayDueValue());
+	}
+
+
+	private findTaskLine(lines: string[], id: TaskId): number {
+		const inert = findInertLines(lines);
+		for (let i = 0; i < lines.length; i++) {
+			if (inert.has(i)) continue;
+			const m = findTaskId(lines[i]);
+			if (m && this.service.resolveTaskId(m.id) === id) return i;
+		}
+		return -1;
+	}
+
+	// Moves a task line and its nested lines under `parentId`, or to the top level of its list
+	private relocateTaskBlock(lines: string[], id: TaskId, parentId: TaskId | undefined): boolean {
+		const start = this.findTaskLine(lines, id);
+		if (start < 0) return false;
+		const end = blockEnd(lines, start);
+		const unit = indentUnit(lines);
+
+		let anchor = -1;
+		let newIndent = '';
+		if (parentId) {
+			anchor = this.findTaskLine(lines, parentId);
+			// The new parent lives in another note (or inside the moved block itself)
+			if (anchor < 0 || (anchor >= start && anchor < end)) return false;
+			newIndent = indentOf(lines[anchor]) + unit;
+		} else {
+			// Walk up to the outermost list item that contains the task
+			let width = indentWidth(lines[start]);
+			for (let j = start - 1; j >= 0 && width > 0; j--) {
+				if (isBlankLine(lines[j])) continue;
+				if (indentWidth(lines[j]) >= width) continue;
+				if (!isListItem(lines[j])) break;
+				anchor = j;
+				width = indentWidth(lines[j]);
+			}
+			if (anchor < 0) return false;
+			newIndent = indentOf(lines[anchor]);
+		}
+
+		const block = lines.splice(start, end - start);
+		if (anchor > start) anchor -= block.length;
+		lines.splice(blockEnd(lines, anchor), 0, ...reindentBlock(block, newIndent));
+		return true;
+	}
+
+	// Adds lines for subtasks created in Todoist under parents that appear in this note
+	private insertUnlinkedSubtasks(lines: string[]): boolean {
+		const inert = findInertLines(lines);
+		const present = new Set<TaskId>();
+		lines.forEach((line, i) => {
+			const m = inert.has(i) ? undefined : findTaskId(line);
+			if (m) present.add(this.service.resolveTaskId(m.id));
+		});
+
+		let inserted = false;
+		const unit = indentUnit(lines);
+		for (let i = 0; i < lines.length; i++) {
+			const m = inert.has(i) ? undefined : findTaskId(lines[i]);
+			if (!m || !isCheckboxLine(lines[i])) continue;
+			const parentId = this.service.resolveTaskId(m.id);
+			const childIds = this.service.getUnlinkedChildTasks(parentId).filter(id => !present.has(id));
+			if (childIds.length === 0) continue;
+
+			const indent = indentOf(lines[i]) + unit;
+			const childLines: string[] = [];
+			for (const childId of childIds) {
+				const child = this.service.getCachedTask(childId);
+				if (!child) continue;
+				debug(`Inserting subtask ${childId} under ${parentId}`);
+				childLines.push(this.renderTaskLine(indent, childId));
+				const description = normalizeDescription(child.description);
+				if (description) childLines.push(...description.split('\n').map(l => (l ? indent + unit + l : '')));
+				present.add(childId);
+				this.service.setLineShadow(childId, {
+					content: child.content,
+					isCompleted: child.isCompleted,
+					projectId: child.projectId,
+					sectionId: child.sectionId,
+					parentId,
+					dueDate: child.dueDate,
+					dueTimezone: child.dueTimezone,
+					dueString: child.isRecurring ? child.dueString : undefined,
+					priority: child.priority ?? 1,
+					labels: child.labels ?? [],
+					description: normalizeDescription(child.description)
+				});
+			}
+			lines.splice(blockEnd(lines, i), 0, ...childLines);
+			inserted = inserted || childLines.length > 0;
+		}
+		return inserted;
+	}
+
+	/**
+	 * Settles a conflict found by the scan. The shadow is rebased so that each field only looks
+	 * changed on the side that won: the next scan pushes the note's choices, and syncDown writes
+	 * Todoist's choices into the line.
+	 */
+	resolveConflict(id: TaskId, choices: Partial<Record<ConflictField, 'local' | 'remote'>>): Promise<void> {
+		const conflict = this.service.getConflict(id);
+		if (!conflict) return Promise.resolve();
+		const file = this.app.vault.getAbstractFileByPath(conflict.path);
+		const base = this.service.getLineShadow(id) ?? conflict.base;
+		const takeLocal = conflict.fields.filter(f => choices[f] !== 'remote');
+		const takeRemote = conflict.fields.filter(f => choices[f] === 'remote');
+		const rebased = copyFields(copyFields(base, conflict.remote, takeLocal), conflict.local, takeRemote);
+		debug('resolveConflict', { id, local: takeLocal, remote: takeRemote });
+		this.service.setLineShadow(id, rebased);
+		this.service.clearConflict(id);
+		if (!(file instanceof TFile)) return Promise.resolve();
+		return this.syncFile(file);
+	}
+
+	// Appends a line for a cached task to the end of a note, linking it to that note again
+	insertTaskLine(file: TFile, id: TaskId): Promise<void> {
+		return this.enqueueSync(async () => {
+			this.lineFormat = this.resolveLineFormat(file);
+			await this.ensureProjects();
+			const task = this.service.getCachedTask(id);
+			if (!task) return;
+			const content = await this.app.vault.read(file);
+			const lines = content.split('\n');
+			const line = this.renderTaskLine('', task.id);
+			const description = normalizeDescription(task.description);
+			const unit = indentUnit(lines);
+			const block = [line, ...(description ? description.split('\n').map(l => (l ? unit + l : '')) : [])];
+			this.service.setLineShadow(task.id, {
+				content: task.content,
+				isCompleted: task.isCompleted,
+				projectId: this.findLineProject(line),
+				sectionId: this.findLineSection(line, task.projectId),
+				parentId: undefined,
+				dueDate: task.dueDate,
+				dueTimezone: task.dueTimezone,
+				dueString: task.isRecurring ? task.dueString : undefined,
+				priority: task.priority ?? 1,
+				labels: task.labels ?? [],
+				description
+			});
+			debug('insertTaskLine', { path: file.path, id: task.id });
+			const head = content.replace(/\s+$/, '');
+			this.lastInternalModifyAtByPath.set(file.path, Date.now());
+			await this.app.vault.modify(file, `${head}${head ? '\n' : ''}${block.join('\n')}\n`);
+		});
+	}
+
+	// Rewrites the ID of every task line in a note in another storage format; returns the number of lines changed
+	convertTaskIds(file: TFile, idFormat: TaskIdFormat): Promise<number> {
+		let converted = 0;
+		return this.enqueueSync(async () => {
+			const format = this.resolveLineFormat(file);
+			const content = await this.app.vault.read(file);
+			const lines = content.split('\n');
+			const inert = findInertLines(lines);
+			const newLines = lines.map((line, i) => (inert.has(i) || !isCheckboxLine(line) ? line : convertTaskId(format, line, idFormat)));
+			converted = newLines.filter((line, i) => line !== lines[i]).length;
+			if (converted === 0) return;
+			debug('convertTaskIds', { path: file.path, idFormat, converted });
+			this.lastInternalModifyAtByPath.set(file.path, Date.now());
+			await this.app.vault.modify(file, newLines.join('\n'));
+		}).then(() => converted);
+	}
+
 	async primeFileShadows(file: TFile): Promise<void> {
 		if (!file) return;
 		await this.enqueueSync(async () => {
 			debug('primeFileShadows:start', { path: file.path });
+			this.lineFormat = this.resolveLineFormat(file);
 			await this.ensureProjects();
 			const content = await this.app.vault.read(file);
 			const lines = content.split('\n');
-			for (const line of lines) {
-				const idMatch = line.match(this.idRegex);
+			const inert = findInertLines(lines);
+			const idsInFile = new Set<TaskId>();
+			lines.forEach((line, i) => {
+				const m = inert.has(i) ? undefined : findTaskId(line);
+				if (m) idsInFile.add(this.service.resolveTaskId(m.id));
+			});
+			const parents = new ParentTracker();
+			for (let i = 0; i < lines.length; i++) {
+				if (inert.has(i)) continue;
+				const line = lines[i];
+				const localParentId = parents.enter(line);
+				const idMatch = findTaskId(line);
+				const statusMatch = line.match(TASK_PREFIX_REGEX);
+				parents.push(line, idMatch && statusMatch ? this.service.resolveTaskId(idMatch.id) : undefined);
 				if (!idMatch) continue;
-				const rawId = idMatch[1];
+				const rawId = idMatch.id;
 				const existingId = this.service.resolveTaskId(rawId);
 				if (this.service.getLineShadow(existingId)) continue;
-				const statusMatch = line.match(/^(\s*)-\s\[(.)\]/);
 				if (!statusMatch) continue;
+				// Prefer the remote nesting when it is visible in this note, so the next scan pushes local re-indents
+				const cachedParentId = this.service.getCachedTask(existingId)?.parentId;
+				const parentId = cachedParentId === undefined || idsInFile.has(cachedParentId) ? cachedParentId : localParentId;
 				const isCompleted = statusMatch[2] !== ' ';
-				const taskContent = this.extractContent(line, true);
+				const taskContent = this.extractContent(line);
 				const dueDate = this.extractDueDate(line);
-				const rawContentWithTags = this.extractContent(line, false);
-				const tagProjectId = this.findProjectByTag(rawContentWithTags);
-				this.service.setLineShadow(existingId, { content: taskContent, dueDate, projectId: tagProjectId, isCompleted });
+				const dueTimezone = this.extractDueTimezone(line);
+				const dueString = this.extractDueString(line);
+				const priority = this.extractPriority(line) ?? 1;
+				const labels = this.extractLabels(line);
+				const description = this.extractDescription(lines, i).text;
+				const tagProjectId = this.findLineProject(line);
+				const sectionId = this.findLineSection(line, this.service.getCachedTask(existingId)?.projectId);
+				this.service.setLineShadow(existingId, { content: taskContent, dueDate, dueTimezone, dueString, projectId: tagProjectId, sectionId, parentId, isCompleted, priority, labels, description });
 			}
 			debug('primeFileShadows:done', { path: file.path });
 		});
 	}
-
-    async syncDownIfHasLocalIds(file: TFile) {
-        const content = await this.app.vault.read(file);
-        if (!/\[todoist_id:local-[\w-]+\]/.test(content)) return;
-        await this.syncDownSafe(file);
-    }
 }
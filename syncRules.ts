@@ -0,0 +1,80 @@
+// Rules that sync a note's checkboxes without the sync tag on every line
+
+// Frontmatter key: `todoist: true`, `todoist: false`, or `todoist: { project: Work, labels: [acme] }`
+export const SYNC_RULE_FRONTMATTER_KEY = 'todoist';
+
+export interface FolderSyncRule {
+	// A folder ('Projects/Acme') or a glob ('Projects/*/Tasks.md', 'Journal/**')
+	path: string;
+	// Project name for new tasks; empty for the default project
+	project: string;
+	labels: string[];
+}
+
+// What applies to a note whose checkboxes sync without the tag
+export interface NoteSyncRule {
+	project?: string;
+	labels: string[];
+}
+
+function globToRegExp(glob: string): RegExp {
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const ch = glob[i];
+		if (ch === '*' && glob[i + 1] === '*') {
+			// '**/' also matches no folder at all
+			const slash = glob[i + 2] === '/';
+			source += slash ? '(?:.*/)?' : '.*';
+			i += slash ? 2 : 1;
+		} else if (ch === '*') {
+			source += '[^/]*';
+		} else if (ch === '?') {
+			source += '[^/]';
+		} else {
+			source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`, 'i');
+}
+
+/** A pattern without wildcards matches the folder (or note) it names and everything below it. */
+export function matchesPathPattern(path: string, pattern: string): boolean {
+	let p = pattern.trim().replace(/^\/+/, '');
+	if (!p) return false;
+	if (!/[*?]/.test(p)) {
+		p = p.replace(/\/+$/, '');
+		const lower = path.toLowerCase();
+		const folder = p.toLowerCase();
+		return lower === folder || lower.startsWith(`${folder}/`);
+	}
+	if (p.endsWith('/')) p += '**';
+	return globToRegExp(p).test(path);
+}
+
+function readLabels(value: unknown): string[] {
+	const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+	return raw
+		.filter((x): x is string => typeof x === 'string')
+		.map(x => x.trim().replace(/^[#@]/, ''))
+		.filter(Boolean);
+}
+
+/**
+ * The rule that makes every open checkbox of a note sync, if any. Notes matching an exclusion never
+ * get one; otherwise frontmatter decides first, then the first folder rule matching the path.
+ */
+export function resolveNoteSyncRule(path: string, frontmatter: Record<string, unknown> | undefined, rules: FolderSyncRule[], excluded: string[]): NoteSyncRule | undefined {
+	if (excluded.some(pattern => matchesPathPattern(path, pattern))) return undefined;
+	const value = frontmatter?.[SYNC_RULE_FRONTMATTER_KEY];
+	if (value === false) return undefined;
+	if (value === true) return { labels: [] };
+	if (value && typeof value === 'object' && !Array.isArray(value)) {
+		const fields = value as Record<string, unknown>;
+		const project = typeof fields.project === 'string' && fields.project.trim() ? fields.project.trim() : undefined;
+		return { project, labels: readLabels(fields.labels) };
+	}
+
+	const rule = rules.find(r => matchesPathPattern(path, r.path));
+	if (!rule) return undefined;
+	return { project: rule.project.trim() || undefined, labels: readLabels(rule.labels) };
+}
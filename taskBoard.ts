@@ -0,0 +1,123 @@
+import type { TaskListItem } from './todoistService';
+import type { LocalProjectRecord, LocalSectionRecord } from './localState';
+
+// Board view of a code block (`view: board`), one column per value of `columns:`:
+//   columns: section                   the sections of the listed tasks' projects, and each project's tasks without one
+//   columns: project: Work, Home       only the named columns, in that order, shown even when empty
+//   columns: priority
+// Dropping a card on a column moves the task to that section or project, or gives it that priority.
+
+export type BoardColumnBy = 'section' | 'project' | 'priority';
+
+export interface BoardColumnConfig {
+	by: BoardColumnBy;
+	// Columns to show, by section or project name or p1-p4; empty shows them all
+	names: string[];
+}
+
+export type BoardTarget =
+	| { kind: 'project'; projectId: string }
+	// No section is the project's tasks outside its sections
+	| { kind: 'section'; projectId: string; sectionId?: string }
+	// Todoist priority, 4 being p1
+	| { kind: 'priority'; priority: number };
+
+export interface BoardColumn {
+	key: string;
+	title: string;
+	target: BoardTarget;
+	tasks: TaskListItem[];
+}
+
+const COLUMN_BY_NAMES: Record<string, BoardColumnBy> = {
+	section: 'section',
+	sections: 'section',
+	project: 'project',
+	projects: 'project',
+	priority: 'priority'
+};
+
+/** Reads a `columns:` value; throws on an unknown kind so the block can show it. */
+export function parseBoardColumns(value: string): BoardColumnConfig {
+	const at = value.indexOf(':');
+	const kind = (at < 0 ? value : value.slice(0, at)).trim().toLowerCase();
+	const names = at < 0 ? [] : value.slice(at + 1).split(',').map(x => x.trim()).filter(Boolean);
+	if (!kind) return { by: 'section', names };
+	if (!Object.prototype.hasOwnProperty.call(COLUMN_BY_NAMES, kind)) throw new Error(`Unknown board columns "${value.trim()}"`);
+	return { by: COLUMN_BY_NAMES[kind], names };
+}
+
+/** Whether a task already sits where a column would put it. */
+export function isInColumn(task: TaskListItem, target: BoardTarget): boolean {
+	if (target.kind === 'priority') return (task.priority ?? 1) === target.priority;
+	if (target.kind === 'project') return task.projectId === target.projectId;
+	return task.projectId === target.projectId && (task.sectionId ?? undefined) === target.sectionId;
+}
+
+function nameKey(name: string): string {
+	return name.trim().normalize('NFC').toLowerCase();
+}
+
+// Keeps the named columns in the order given; `names` may match several columns, e.g. a section in two projects
+function pickColumns<T extends BoardColumn>(columns: T[], names: string[], nameOf: (column: T) => string): T[] {
+	if (names.length === 0) return columns;
+	return names.flatMap(name => columns.filter(column => nameKey(nameOf(column)) === nameKey(name)));
+}
+
+/** The columns of a board, each holding its tasks in the order given. */
+export function buildBoardColumns(tasks: TaskListItem[], config: BoardColumnConfig, projects: LocalProjectRecord[], sections: LocalSectionRecord[]): BoardColumn[] {
+	if (config.by === 'priority') {
+		const columns = [4, 3, 2, 1].map(priority => ({
+			key: `p${5 - priority}`,
+			title: `Priority ${5 - priority}`,
+			target: { kind: 'priority', priority } as BoardTarget,
+			tasks: tasks.filter(task => (task.priority ?? 1) === priority)
+		}));
+		return pickColumns(columns, config.names, column => column.key);
+	}
+
+	const projectName = (id: string) => projects.find(p => p.id === id)?.name ?? tasks.find(t => t.projectId === id)?.projectName ?? id;
+	const projectIds = new Set(tasks.map(t => t.projectId).filter((id): id is string => Boolean(id)));
+
+	if (config.by === 'project') {
+		// Named projects get a column even without tasks, so cards can be dropped there
+		for (const name of config.names) {
+			for (const project of projects) if (nameKey(project.name) === nameKey(name)) projectIds.add(project.id);
+		}
+		const columns = Array.from(projectIds, id => ({
+			key: id,
+			title: projectName(id),
+			target: { kind: 'project', projectId: id } as BoardTarget,
+			tasks: tasks.filter(task => task.projectId === id)
+		})).sort((a, b) => a.title.localeCompare(b.title));
+		return pickColumns(columns, config.names, column => column.title);
+	}
+
+	const multipleProjects = projectIds.size > 1;
+	const columns: (BoardColumn & { sectionName: string })[] = [];
+	for (const projectId of Array.from(projectIds).sort((a, b) => projectName(a).localeCompare(projectName(b)))) {
+		const name = projectName(projectId);
+		columns.push({
+			key: `${projectId}/`,
+			title: multipleProjects ? name : 'No section',
+			sectionName: name,
+			target: { kind: 'section', projectId },
+			tasks: tasks.filter(task => task.projectId === projectId && !task.sectionId)
+		});
+		const projectSections = sections
+			.filter(section => section.projectId === projectId)
+			.sort((a, b) => (a.order ?? 0) - (b.order ?? 0) || a.name.localeCompare(b.name));
+		for (const section of projectSections) {
+			columns.push({
+				key: `${projectId}/${section.id}`,
+				title: multipleProjects ? `${name} / ${section.name}` : section.name,
+				sectionName: section.name,
+				target: { kind: 'section', projectId, sectionId: section.id },
+				tasks: tasks.filter(task => task.sectionId === section.id)
+			});
+		}
+	}
+	// A project's tasks without a section are picked by the project's name
+	return pickColumns(columns, config.names, column => column.sectionName)
+		.map(({ key, title, target, tasks: columnTasks }) => ({ key, title, target, tasks: columnTasks }));
+}
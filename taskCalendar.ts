@@ -0,0 +1,105 @@
+import type { TaskListItem } from './todoistService';
+import { dueDatePart, dueValueAt, hasDueTime, shiftDate } from './dueDates';
+
+// Agenda and calendar views of a code block, laid out from the cached due dates:
+//   view: agenda      overdue tasks, then one group per day for the next `days:` days (default 7)
+//   view: calendar    a month grid, weeks starting on Monday
+// Tasks without a due date are not shown. Dropping a task on a day moves its due date there,
+// keeping its time.
+
+export const DEFAULT_AGENDA_DAYS = 7;
+
+export interface CalendarDay {
+	// 'YYYY-MM-DD'
+	date: string;
+	tasks: TaskListItem[];
+}
+
+export interface Agenda {
+	overdue: TaskListItem[];
+	days: CalendarDay[];
+}
+
+export interface CalendarMonth {
+	// 'YYYY-MM'
+	month: string;
+	// Whole weeks, including the days of the months before and after
+	weeks: CalendarDay[][];
+}
+
+export const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/** Reads a `days:` value. */
+export function parseAgendaDays(value: string): number {
+	const days = Number.parseInt(value.trim(), 10);
+	if (!Number.isFinite(days) || days <= 0) throw new Error(`Invalid days "${value.trim()}"`);
+	return days;
+}
+
+// Monday is 0
+function weekday(date: string): number {
+	const [y, m, d] = date.split('-').map(Number);
+	return (new Date(Date.UTC(y, m - 1, d)).getUTCDay() + 6) % 7;
+}
+
+/** A day as an agenda heading: today and tomorrow by name, other days with their weekday. */
+export function dayTitle(date: string, now: number): string {
+	const today = dueValueAt(now).slice(0, 10);
+	if (date === today) return 'Today';
+	if (date === shiftDate(today, 1)) return 'Tomorrow';
+	return `${WEEKDAY_NAMES[weekday(date)]} ${date}`;
+}
+
+export function monthTitle(month: string): string {
+	const [y, m] = month.split('-').map(Number);
+	return `${MONTH_NAMES[m - 1]} ${y}`;
+}
+
+/** The month `offset` months after a 'YYYY-MM' month. */
+export function shiftMonth(month: string, offset: number): string {
+	const [y, m] = month.split('-').map(Number);
+	return new Date(Date.UTC(y, m - 1 + offset, 1)).toISOString().slice(0, 7);
+}
+
+function isOverdue(task: TaskListItem, now: number): boolean {
+	if (!task.dueDate || task.isCompleted) return false;
+	if (hasDueTime(task.dueDate)) return task.dueDate < dueValueAt(now, task.dueTimezone);
+	return task.dueDate < dueValueAt(now).slice(0, 10);
+}
+
+function tasksOn(tasks: TaskListItem[], date: string): TaskListItem[] {
+	return tasks.filter(task => task.dueDate && dueDatePart(task.dueDate) === date);
+}
+
+/** Overdue tasks and the tasks of each of the next `days` days, keeping their order. */
+export function buildAgenda(tasks: TaskListItem[], days: number, now: number): Agenda {
+	const today = dueValueAt(now).slice(0, 10);
+	const overdue = tasks.filter(task => isOverdue(task, now));
+	const upcoming = tasks.filter(task => !overdue.includes(task));
+	return {
+		overdue,
+		days: Array.from({ length: days }, (_, i) => shiftDate(today, i)).map(date => ({ date, tasks: tasksOn(upcoming, date) }))
+	};
+}
+
+/** The weeks of a month with the tasks due on each day. */
+export function buildCalendarMonth(tasks: TaskListItem[], month: string): CalendarMonth {
+	const first = `${month}-01`;
+	const daysInMonth = Number(shiftDate(`${shiftMonth(month, 1)}-01`, -1).slice(8, 10));
+	const start = shiftDate(first, -weekday(first));
+	const weekCount = Math.ceil((weekday(first) + daysInMonth) / 7);
+	const weeks: CalendarDay[][] = [];
+	for (let w = 0; w < weekCount; w++) {
+		weeks.push(Array.from({ length: 7 }, (_, d) => {
+			const date = shiftDate(start, w * 7 + d);
+			return { date, tasks: tasksOn(tasks, date) };
+		}));
+	}
+	return { month, weeks };
+}
+
+/** The due value of a task moved to another day; a time of day is kept. */
+export function rescheduledDue(dueDate: string | undefined, date: string): string {
+	return dueDate && hasDueTime(dueDate) ? `${date}${dueDate.slice(10)}` : date;
+}
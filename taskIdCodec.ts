@@ -0,0 +1,73 @@
+import { TaskId } from './localState';
+
+// How the Todoist ID of a task is stored on its line:
+//   bracket  - [ ] Task #todoist [todoist_id:123]
+//   comment  - [ ] Task #todoist <!-- todoist:123 -->
+//   blockId  - [ ] Task #todoist ^td-123
+//   field    - [ ] Task #todoist [todoist_id:: 123]   (a Dataview field, hidden by styles.css)
+// IDs are read in every format, so a note may mix them; new IDs are written in the chosen one.
+export type TaskIdFormat = 'bracket' | 'comment' | 'blockId' | 'field';
+
+export const TASK_ID_FORMAT_NAMES: Record<TaskIdFormat, string> = {
+	bracket: 'Bracket ([todoist_id:123])',
+	comment: 'HTML comment (<!-- todoist:123 -->)',
+	blockId: 'Block ID (^td-123)',
+	field: 'Hidden inline field ([todoist_id:: 123])'
+};
+
+export function isTaskIdFormat(value: unknown): value is TaskIdFormat {
+	return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TASK_ID_FORMAT_NAMES, value);
+}
+
+export interface TaskIdCodec {
+	// Finds the stored ID; group 1 is the ID, whitespace around the match is not part of it
+	pattern: RegExp;
+	render(id: TaskId): string;
+}
+
+export const TASK_ID_CODECS: Record<TaskIdFormat, TaskIdCodec> = {
+	bracket: { pattern: /\[todoist_id:([\w-]+)\]/, render: id => `[todoist_id:${id}]` },
+	comment: { pattern: /<!--\s*todoist:([\w-]+)\s*-->/, render: id => `<!-- todoist:${id} -->` },
+	// Obsidian only takes a block ID at the very end of a line, after whitespace
+	blockId: { pattern: /(?:^|\s)\^td-([\w-]+)\s*$/, render: id => `^td-${id}` },
+	field: { pattern: /\[todoist_id::\s*([\w-]+)\s*\]/, render: id => `[todoist_id:: ${id}]` }
+};
+
+const TASK_ID_FORMATS = Object.keys(TASK_ID_CODECS) as TaskIdFormat[];
+
+export interface TaskIdMatch {
+	id: TaskId;
+	format: TaskIdFormat;
+	start: number;
+	end: number;
+}
+
+/** The ID stored on a line, in whichever format it was written. */
+export function findTaskId(line: string): TaskIdMatch | undefined {
+	let found: TaskIdMatch | undefined;
+	for (const format of TASK_ID_FORMATS) {
+		const m = line.match(TASK_ID_CODECS[format].pattern);
+		if (m?.index === undefined) continue;
+		const start = m.index + (m[0].length - m[0].trimStart().length);
+		if (found && found.start <= start) continue;
+		found = { id: m[1], format, start, end: m.index + m[0].trimEnd().length };
+	}
+	return found;
+}
+
+/** Whether any line of `text` stores an ID. */
+export function hasTaskId(text: string): boolean {
+	return TASK_ID_FORMATS.some(format => new RegExp(TASK_ID_CODECS[format].pattern.source, 'm').test(text));
+}
+
+/** Rewrites the stored ID (a local ID once Todoist has assigned the real one), keeping its format. */
+export function replaceTaskId(line: string, id: TaskId): string {
+	const found = findTaskId(line);
+	if (!found) return line;
+	return line.slice(0, found.start) + TASK_ID_CODECS[found.format].render(id) + line.slice(found.end);
+}
+
+export function removeTaskId(line: string): string {
+	const found = findTaskId(line);
+	return found ? line.slice(0, found.start) + line.slice(found.end) : line;
+}
@@ -0,0 +1,162 @@
+import type { TaskListItem } from './todoistService';
+import { dueDatePart, dueValueAt, hasDueTime, shiftDate } from './dueDates';
+
+// Grouping and sorting of code block lists, from the block's options:
+//   group-by: project | section | due | priority | label
+//   sort: due, priority desc, content      (keys: due, priority, content, created, order)
+// Keys sort ascending unless followed by 'desc'; priority ascending puts p1 first and order is
+// Todoist's own order within a project. Tasks without a due date or creation time always come last.
+
+export type TaskGroupBy = 'project' | 'section' | 'due' | 'priority' | 'label';
+
+export type TaskSortKey = 'due' | 'priority' | 'content' | 'created' | 'order';
+
+export interface TaskSort {
+	key: TaskSortKey;
+	descending: boolean;
+}
+
+export interface TaskGroup {
+	key: string;
+	title: string;
+	tasks: TaskListItem[];
+}
+
+const GROUP_BY_NAMES: Record<string, TaskGroupBy> = {
+	project: 'project',
+	section: 'section',
+	due: 'due',
+	'due date': 'due',
+	date: 'due',
+	priority: 'priority',
+	label: 'label',
+	labels: 'label'
+};
+
+const SORT_KEY_NAMES: Record<string, TaskSortKey> = {
+	due: 'due',
+	'due date': 'due',
+	date: 'due',
+	priority: 'priority',
+	content: 'content',
+	name: 'content',
+	created: 'created',
+	order: 'order',
+	'todoist order': 'order'
+};
+
+/** Reads a `group-by:` value; throws on an unknown one so the block can show it. */
+export function parseGroupBy(value: string): TaskGroupBy | undefined {
+	const name = value.trim().toLowerCase().replace(/\s+/g, ' ');
+	if (!name) return undefined;
+	if (!Object.prototype.hasOwnProperty.call(GROUP_BY_NAMES, name)) throw new Error(`Unknown group-by "${value.trim()}"`);
+	return GROUP_BY_NAMES[name];
+}
+
+/** Reads a `sort:` value, a ','-separated list of keys each optionally followed by asc or desc. */
+export function parseSort(value: string): TaskSort[] {
+	const sorts: TaskSort[] = [];
+	for (const part of value.split(',')) {
+		const words = part.trim().toLowerCase().split(/\s+/).filter(Boolean);
+		if (words.length === 0) continue;
+		const direction = words[words.length - 1];
+		const descending = direction === 'desc' || direction === 'descending';
+		if (descending || direction === 'asc' || direction === 'ascending') words.pop();
+		const name = words.join(' ');
+		if (!Object.prototype.hasOwnProperty.call(SORT_KEY_NAMES, name)) throw new Error(`Unknown sort key "${part.trim()}"`);
+		sorts.push({ key: SORT_KEY_NAMES[name], descending });
+	}
+	return sorts;
+}
+
+// Todoist priority 4 is p1
+function priorityLevel(task: TaskListItem): number {
+	return 5 - (task.priority ?? 1);
+}
+
+function compareBy(a: TaskListItem, b: TaskListItem, sort: TaskSort): number {
+	const direction = sort.descending ? -1 : 1;
+	const missingLast = (x: unknown, y: unknown) => (x === undefined ? 1 : 0) - (y === undefined ? 1 : 0);
+	switch (sort.key) {
+		case 'due':
+			return missingLast(a.dueDate, b.dueDate) || direction * (a.dueDate ?? '').localeCompare(b.dueDate ?? '');
+		case 'created':
+			return missingLast(a.createdAt, b.createdAt) || direction * ((a.createdAt ?? 0) - (b.createdAt ?? 0));
+		case 'priority':
+			return direction * (priorityLevel(a) - priorityLevel(b));
+		case 'content':
+			return direction * a.content.localeCompare(b.content);
+		case 'order':
+			return direction * ((a.projectName ?? '').localeCompare(b.projectName ?? '') || (a.order ?? 0) - (b.order ?? 0));
+	}
+}
+
+/** Sorts by the keys in turn; tasks equal on every key keep their order. */
+export function sortTasks(tasks: TaskListItem[], sorts: TaskSort[]): TaskListItem[] {
+	if (sorts.length === 0) return tasks;
+	return tasks
+		.map((task, index) => ({ task, index }))
+		.sort((a, b) => {
+			for (const sort of sorts) {
+				const result = compareBy(a.task, b.task, sort);
+				if (result !== 0) return result;
+			}
+			return a.index - b.index;
+		})
+		.map(x => x.task);
+}
+
+interface GroupKey {
+	key: string;
+	title: string;
+	// Groups are listed by rank, then title
+	rank: number;
+}
+
+function groupKeys(task: TaskListItem, groupBy: TaskGroupBy, now: number): GroupKey[] {
+	switch (groupBy) {
+		case 'project':
+			return [task.projectName ? { key: task.projectId ?? '', title: task.projectName, rank: 0 } : { key: '', title: 'No project', rank: 1 }];
+		case 'section': {
+			const project = task.projectName ?? 'No project';
+			return [task.sectionName
+				? { key: `${task.projectId ?? ''}/${task.sectionId ?? ''}`, title: `${project} / ${task.sectionName}`, rank: 0 }
+				: { key: `${task.projectId ?? ''}/`, title: project, rank: 0 }];
+		}
+		case 'due': {
+			if (!task.dueDate) return [{ key: '', title: 'No date', rank: 3 }];
+			const today = dueValueAt(now).slice(0, 10);
+			const date = dueDatePart(task.dueDate);
+			const overdue = hasDueTime(task.dueDate) ? task.dueDate < dueValueAt(now, task.dueTimezone) : date < today;
+			if (overdue && !task.isCompleted) return [{ key: 'overdue', title: 'Overdue', rank: 0 }];
+			const names: Record<string, string> = { [today]: 'Today', [shiftDate(today, 1)]: 'Tomorrow' };
+			// Dates sort by title, which is the date itself apart from today and tomorrow
+			return [{ key: date, title: names[date] ?? date, rank: date === today ? 1 : date === shiftDate(today, 1) ? 1.5 : 2 }];
+		}
+		case 'priority': {
+			const level = priorityLevel(task);
+			return [{ key: `p${level}`, title: level === 4 ? 'Priority 4 (none)' : `Priority ${level}`, rank: level }];
+		}
+		case 'label': {
+			const labels = task.labels ?? [];
+			// A task with several labels is listed under each of them
+			if (labels.length === 0) return [{ key: '', title: 'No label', rank: 1 }];
+			return labels.map(label => ({ key: label, title: `@${label}`, rank: 0 }));
+		}
+	}
+}
+
+/** Splits already sorted tasks into groups, keeping their order within each group. */
+export function groupTasks(tasks: TaskListItem[], groupBy: TaskGroupBy, now: number): TaskGroup[] {
+	const groups = new Map<string, GroupKey & { tasks: TaskListItem[] }>();
+	for (const task of tasks) {
+		for (const group of groupKeys(task, groupBy, now)) {
+			const existing = groups.get(group.key);
+			if (existing) existing.tasks.push(task);
+			else groups.set(group.key, { ...group, tasks: [task] });
+		}
+	}
+	return Array.from(groups.values())
+		.sort((a, b) => a.rank - b.rank || a.title.localeCompare(b.title))
+		.map(({ key, title, tasks }) => ({ key, title, tasks }));
+}
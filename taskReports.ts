@@ -0,0 +1,317 @@
+import { App, FuzzySuggestModal, Modal, Notice, SuggestModal, TFile } from 'obsidian';
+import { ConflictField, TaskConflict, TaskId } from './localState';
+import { TodoistService } from './todoistService';
+import { SyncManager } from './syncManager';
+import { TaskLineRef, VaultIndex } from './vaultIndex';
+import { confirmWithModal } from './settings';
+import { CONFLICT_FIELD_NAMES, formatFieldValue } from './conflicts';
+import { TASK_ID_FORMAT_NAMES, TaskIdFormat } from './taskIdCodec';
+
+async function openTaskLine(app: App, ref: TaskLineRef) {
+	await app.workspace.getLeaf(false).openFile(ref.file, { eState: { line: ref.line } });
+}
+
+function describeRef(ref: TaskLineRef): string {
+	return `${ref.file.path}:${ref.line + 1}`;
+}
+
+/** Finds a task line by Todoist ID or task text and opens its note there. */
+export class RevealTaskModal extends SuggestModal<TaskLineRef> {
+	private service: TodoistService;
+	private index: VaultIndex;
+
+	constructor(app: App, service: TodoistService, index: VaultIndex) {
+		super(app);
+		this.service = service;
+		this.index = index;
+		this.setPlaceholder('Task ID or text');
+	}
+
+	getSuggestions(query: string): TaskLineRef[] {
+		const q = query.trim().toLowerCase();
+		return this.index.allTaskLines().filter(ref => {
+			if (!q) return true;
+			const content = this.service.getCachedTask(ref.id)?.content ?? '';
+			return ref.id.toLowerCase().includes(q) || content.toLowerCase().includes(q);
+		});
+	}
+
+	renderSuggestion(ref: TaskLineRef, el: HTMLElement) {
+		el.createDiv({ text: this.service.getCachedTask(ref.id)?.content ?? ref.id });
+		el.createEl('small', { text: `${ref.id} · ${describeRef(ref)}`, cls: 'obsidoist-report-meta' });
+	}
+
+	onChooseSuggestion(ref: TaskLineRef) {
+		void openTaskLine(this.app, ref);
+	}
+}
+
+/** Picks the format that task IDs across the vault are converted to. */
+export class TaskIdFormatModal extends SuggestModal<TaskIdFormat> {
+	private onChoose: (format: TaskIdFormat) => void;
+
+	constructor(app: App, onChoose: (format: TaskIdFormat) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Format to store each task ID in');
+	}
+
+	getSuggestions(query: string): TaskIdFormat[] {
+		const q = query.trim().toLowerCase();
+		return (Object.keys(TASK_ID_FORMAT_NAMES) as TaskIdFormat[]).filter(format => TASK_ID_FORMAT_NAMES[format].toLowerCase().includes(q));
+	}
+
+	renderSuggestion(format: TaskIdFormat, el: HTMLElement) {
+		el.createDiv({ text: TASK_ID_FORMAT_NAMES[format] });
+	}
+
+	onChooseSuggestion(format: TaskIdFormat) {
+		this.onChoose(format);
+	}
+}
+
+/** Lists tasks whose ID is written on more than one line, with links to each line. */
+export class DuplicateTasksModal extends Modal {
+	private service: TodoistService;
+	private index: VaultIndex;
+
+	constructor(app: App, service: TodoistService, index: VaultIndex) {
+		super(app);
+		this.service = service;
+		this.index = index;
+	}
+
+	onOpen() {
+		this.titleEl.setText('Tasks linked from more than one line');
+		const duplicates = this.index.duplicates();
+		if (duplicates.size === 0) {
+			this.contentEl.createEl('p', { text: 'No task is linked from more than one line.' });
+			return;
+		}
+		for (const [id, refs] of duplicates) {
+			const row = this.contentEl.createDiv({ cls: 'obsidoist-report-row' });
+			row.createDiv({ text: this.service.getCachedTask(id)?.content ?? id });
+			row.createEl('small', { text: id, cls: 'obsidoist-report-meta' });
+			const list = row.createEl('ul');
+			for (const ref of refs) {
+				const link = list.createEl('li').createEl('a', { text: describeRef(ref), href: '#' });
+				link.addEventListener('click', (evt) => {
+					evt.preventDefault();
+					this.close();
+					void openTaskLine(this.app, ref);
+				});
+			}
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+class NoteSuggestModal extends FuzzySuggestModal<TFile> {
+	private onChoose: (file: TFile) => void;
+
+	constructor(app: App, onChoose: (file: TFile) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Note to insert the task into');
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getMarkdownFiles();
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile) {
+		this.onChoose(file);
+	}
+}
+
+/** Lists open tasks created from notes that no note links any more, with actions to resolve each. */
+export class OrphanedTasksModal extends Modal {
+	private service: TodoistService;
+	private syncManager: SyncManager;
+	private index: VaultIndex;
+
+	constructor(app: App, service: TodoistService, syncManager: SyncManager, index: VaultIndex) {
+		super(app);
+		this.service = service;
+		this.syncManager = syncManager;
+		this.index = index;
+	}
+
+	onOpen() {
+		this.titleEl.setText('Tasks no note links any more');
+		const referenced = this.index.referencedTaskIds();
+		const orphans = this.service.getPluginCreatedOpenTaskIds().filter(id => !referenced.has(id));
+		if (orphans.length === 0) {
+			this.contentEl.createEl('p', { text: 'Every task created from a note is still linked.' });
+			return;
+		}
+		for (const id of orphans) this.renderRow(id);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private renderRow(id: TaskId) {
+		const task = this.service.getCachedTask(id);
+		if (!task) return;
+		const row = this.contentEl.createDiv({ cls: 'obsidoist-report-row' });
+		row.createDiv({ text: task.content });
+		row.createEl('small', { text: task.dueDate ? `${id} · due ${task.dueDate.replace('T', ' ')}` : id, cls: 'obsidoist-report-meta' });
+		const buttons = row.createDiv({ cls: 'obsidoist-report-actions' });
+
+		// Closing a recurring task only moves it to its next date, so it can only be deleted or re-inserted
+		if (!task.isRecurring) {
+			buttons.createEl('button', { text: 'Close' }).addEventListener('click', () => {
+				void this.service.closeTask(id).then(() => {
+					row.remove();
+					void this.service.syncNow();
+				});
+			});
+		}
+
+		const remove = buttons.createEl('button', { text: 'Delete' });
+		remove.addClass('mod-warning');
+		remove.addEventListener('click', () => {
+			void (async () => {
+				const ok = await confirmWithModal(this.app, 'Delete task', `Delete "${task.content}" in Todoist?`);
+				if (!ok) return;
+				await this.service.deleteTask(id);
+				row.remove();
+				void this.service.syncNow();
+			})();
+		});
+
+		buttons.createEl('button', { text: 'Re-insert…' }).addEventListener('click', () => {
+			new NoteSuggestModal(this.app, (file) => {
+				void this.syncManager.insertTaskLine(file, id).then(() => {
+					row.remove();
+					new Notice(`Obsidoist: task added to ${file.basename}`);
+				});
+			}).open();
+		});
+	}
+}
+
+/** Asks what to do with open tasks whose line was removed from every note. */
+export class RemovedTasksModal extends Modal {
+	private service: TodoistService;
+	private removed: { id: TaskId; path: string }[];
+	private onResult: (action: 'close' | 'delete' | undefined) => void;
+	private action: 'close' | 'delete' | undefined;
+
+	constructor(app: App, service: TodoistService, removed: { id: TaskId; path: string }[], onResult: (action: 'close' | 'delete' | undefined) => void) {
+		super(app);
+		this.service = service;
+		this.removed = removed;
+		this.onResult = onResult;
+	}
+
+	onOpen() {
+		this.titleEl.setText(this.removed.length === 1 ? 'Task line removed' : 'Task lines removed');
+		this.contentEl.createEl('p', { text: 'These tasks are no longer linked from any note. Choose what to do with them.' });
+		for (const { id, path } of this.removed) {
+			const row = this.contentEl.createDiv({ cls: 'obsidoist-report-row' });
+			row.createDiv({ text: this.service.getCachedTask(id)?.content ?? id });
+			row.createEl('small', { text: `Removed from ${path}`, cls: 'obsidoist-report-meta' });
+		}
+
+		const buttons = this.contentEl.createDiv({ cls: 'modal-button-container' });
+		buttons.createEl('button', { text: 'Keep open' }).addEventListener('click', () => this.close());
+		buttons.createEl('button', { text: 'Complete' }).addEventListener('click', () => {
+			this.action = 'close';
+			this.close();
+		});
+		const remove = buttons.createEl('button', { text: 'Delete' });
+		remove.addClass('mod-warning');
+		remove.addEventListener('click', () => {
+			this.action = 'delete';
+			this.close();
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onResult(this.action);
+	}
+}
+
+/** Shows each task edited in a note and in Todoist since the last sync, and lets the user pick a side per field. */
+export class ConflictModal extends Modal {
+	private service: TodoistService;
+	private syncManager: SyncManager;
+	private onDone: () => void;
+
+	constructor(app: App, service: TodoistService, syncManager: SyncManager, onDone: () => void = () => {}) {
+		super(app);
+		this.service = service;
+		this.syncManager = syncManager;
+		this.onDone = onDone;
+	}
+
+	onOpen() {
+		this.titleEl.setText('Sync conflicts');
+		const conflicts = Object.entries(this.service.getConflicts());
+		if (conflicts.length === 0) {
+			this.contentEl.createEl('p', { text: 'No task has conflicting edits.' });
+			return;
+		}
+		this.contentEl.createEl('p', { text: 'These tasks changed both in a note and remotely since the last sync. Choose which version of each field to keep.' });
+		for (const [id, conflict] of conflicts) this.renderConflict(id, conflict);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onDone();
+	}
+
+	private renderConflict(id: TaskId, conflict: TaskConflict) {
+		const nameOf = (id: string) => this.service.getProjectName(id) ?? this.service.getSectionName(id);
+		const row = this.contentEl.createDiv({ cls: 'obsidoist-report-row' });
+		row.createDiv({ text: conflict.local.content });
+		const link = row.createEl('a', { text: conflict.path, href: '#', cls: 'obsidoist-report-meta' });
+		link.addEventListener('click', (evt) => {
+			evt.preventDefault();
+			const file = this.app.vault.getAbstractFileByPath(conflict.path);
+			if (!(file instanceof TFile)) return;
+			this.close();
+			void this.app.workspace.getLeaf(false).openFile(file);
+		});
+
+		const table = row.createEl('table', { cls: 'obsidoist-conflict-table' });
+		const head = table.createEl('tr');
+		for (const title of ['', 'Last synced', 'Note', 'Todoist', 'Keep']) head.createEl('th', { text: title });
+
+		const choices: Partial<Record<ConflictField, 'local' | 'remote'>> = {};
+		for (const field of conflict.fields) {
+			const tr = table.createEl('tr');
+			tr.createEl('td', { text: CONFLICT_FIELD_NAMES[field] });
+			tr.createEl('td', { text: formatFieldValue(conflict.base, field, nameOf) });
+			tr.createEl('td', { text: formatFieldValue(conflict.local, field, nameOf) });
+			tr.createEl('td', { text: formatFieldValue(conflict.remote, field, nameOf) });
+			const select = tr.createEl('td').createEl('select', { cls: 'dropdown' });
+			select.createEl('option', { text: 'Note', value: 'local' });
+			select.createEl('option', { text: 'Todoist', value: 'remote' });
+			choices[field] = 'local';
+			select.addEventListener('change', () => {
+				choices[field] = select.value === 'remote' ? 'remote' : 'local';
+			});
+		}
+
+		const buttons = row.createDiv({ cls: 'obsidoist-report-actions' });
+		const apply = buttons.createEl('button', { text: 'Apply' });
+		apply.addClass('mod-cta');
+		apply.addEventListener('click', () => {
+			row.remove();
+			void this.syncManager.resolveConflict(id, choices);
+			if (Object.keys(this.service.getConflicts()).length === 0) this.close();
+		});
+	}
+}
@@ -1,11 +1,15 @@
 import { TodoistApi, Task, Project } from '@doist/todoist-api-typescript';
 import { Events, Notice, requestUrl } from 'obsidian';
-import { createLocalId, createOperationId, LocalProjectRecord, LocalTaskRecord, ObsidoistLocalState, SyncOperation, TaskId } from './localState';
+import { createLocalId, createOperationId, LineShadow, LocalLabelRecord, LocalSectionRecord, TaskConflict, LocalProjectRecord, LocalTaskRecord, ObsidoistLocalState, SyncOperation, TaskFields, TaskId } from './localState';
 import { debug } from './logger';
+import { fromTodoistDue, toSyncApiDue } from './dueDates';
+import { FilterContext, evaluateFilterList, parseFilter } from './filterQuery';
 
 type SyncApiResponse = {
     sync_token?: unknown;
     projects?: unknown[];
+    sections?: unknown[];
+    labels?: unknown[];
     items?: unknown[];
     temp_id_mapping?: Record<string, string>;
     sync_status?: unknown;
@@ -18,6 +22,26 @@ type SyncApiCommand = {
     args: Record<string, unknown>;
 };
 
+// A task as shown in a code block list
+export interface TaskListItem {
+    id: TaskId;
+    content: string;
+    isCompleted: boolean;
+    projectId?: string;
+    projectName?: string;
+    projectColor?: string;
+    sectionId?: string;
+    sectionName?: string;
+    dueDate?: string;
+    dueTimezone?: string;
+    isRecurring?: boolean;
+    dueString?: string;
+    priority?: number;
+    labels?: string[];
+    createdAt?: number;
+    order?: number;
+}
+
 export class TodoistService extends Events {
     private api: TodoistApi | null = null;
 
@@ -57,7 +81,13 @@ export class TodoistService extends Events {
 						content: remoteShadow.content,
 						isCompleted: localShadow.isCompleted === false ? false : remoteShadow.isCompleted,
 						projectId: remoteShadow.projectId ?? localShadow.projectId,
-						dueDate: remoteShadow.dueDate ?? localShadow.dueDate
+						parentId: remoteShadow.parentId ?? localShadow.parentId,
+						dueDate: remoteShadow.dueDate ?? localShadow.dueDate,
+						dueTimezone: remoteShadow.dueTimezone ?? localShadow.dueTimezone,
+						dueString: remoteShadow.dueString ?? localShadow.dueString,
+						priority: remoteShadow.priority ?? localShadow.priority,
+						labels: remoteShadow.labels ?? localShadow.labels,
+						description: remoteShadow.description ?? localShadow.description
 					};
 					this.localState.lineShadowById[remoteId] = merged;
 				}
@@ -209,7 +239,8 @@ export class TodoistService extends Events {
         const tasks = Object.keys(this.localState.tasksById).length;
         const filters = Object.keys(this.localState.filterResults).length;
         const projects = Object.keys(this.localState.projectsById).length;
-        return { tasks, filters, projects };
+        const labels = Object.keys(this.localState.labelsById).length;
+        return { tasks, filters, projects, labels };
     }
 
 	getIdAliasMapKeys(): TaskId[] {
@@ -220,7 +251,7 @@ export class TodoistService extends Events {
 		const referenced = new Set<TaskId>();
 		for (const id of Object.keys(this.localState.tasksById ?? {})) referenced.add(id);
 		for (const op of this.localState.queue ?? []) {
-			if (op.type === 'create') referenced.add(op.localId);
+			if (op.type === 'create' || op.type === 'createProject') referenced.add(op.localId);
 			else referenced.add(this.resolveId(op.id));
 		}
 		for (const ids of Object.values(this.localState.filterResults ?? {})) {
@@ -245,6 +276,10 @@ export class TodoistService extends Events {
 
     clearQueue() {
         this.localState.queue = [];
+        // Projects that were only queued for creation go with the queue
+        for (const id of Object.keys(this.localState.projectsById)) {
+            if (id.startsWith('local-')) delete this.localState.projectsById[id];
+        }
         this.requestPersist();
         this.triggerRefresh();
     }
@@ -310,7 +345,7 @@ export class TodoistService extends Events {
             `Queue: total=${counts.total}, create=${counts.create ?? 0}, update=${counts.update ?? 0}, close=${counts.close ?? 0}, reopen=${counts.reopen ?? 0}`,
             `Queue oldest queuedAt: ${oldestQueuedAt ? new Date(oldestQueuedAt).toISOString() : 'N/A'}`,
             `Queue nextRetryAt: ${nextRetryAt ? new Date(nextRetryAt).toISOString() : 'N/A'}`,
-            `Cache: tasks=${cache.tasks}, filters=${cache.filters}, projects=${cache.projects}`,
+            `Cache: tasks=${cache.tasks}, filters=${cache.filters}, projects=${cache.projects}, labels=${cache.labels}`,
             `Last sync started: ${status.lastSyncStartedAt ? new Date(status.lastSyncStartedAt).toISOString() : 'N/A'}`,
             `Last sync finished: ${status.lastSyncFinishedAt ? new Date(status.lastSyncFinishedAt).toISOString() : 'N/A'}`,
             `Last sync success: ${status.lastSuccessfulSyncAt ? new Date(status.lastSuccessfulSyncAt).toISOString() : 'N/A'}`,
@@ -318,6 +353,7 @@ export class TodoistService extends Events {
             `Last error at: ${status.lastErrorAt ? new Date(status.lastErrorAt).toISOString() : 'N/A'}`,
             `Last full refresh: ${this.localState.lastFullSyncAt ? new Date(this.localState.lastFullSyncAt).toISOString() : 'N/A'}`,
             `Last projects refresh: ${this.localState.lastProjectsSyncAt ? new Date(this.localState.lastProjectsSyncAt).toISOString() : 'N/A'}`,
+            `Last labels refresh: ${this.localState.lastLabelsSyncAt ? new Date(this.localState.lastLabelsSyncAt).toISOString() : 'N/A'}`,
             `Last prune: ${status.lastPruneAt ? new Date(status.lastPruneAt).toISOString() : 'N/A'}`
         ];
 
@@ -332,23 +368,78 @@ export class TodoistService extends Events {
         return this.resolveId(id);
     }
 
-    getCachedTask(id: TaskId): { id: string; content: string; isCompleted: boolean; projectId?: string; dueDate?: string; isDeleted?: boolean } | null {
+    getCachedTask(id: TaskId): { id: string; content: string; isCompleted: boolean; projectId?: string; sectionId?: string; parentId?: string; dueDate?: string; dueTimezone?: string; isRecurring?: boolean; dueString?: string; priority?: number; labels?: string[]; description?: string; isDeleted?: boolean; remoteUpdatedAt?: number } | null {
         const canonical = this.resolveId(id);
         const t = this.localState.tasksById[canonical];
         if (!t) return null;
-        return { id: t.id, content: t.content, isCompleted: t.isCompleted, projectId: t.projectId, dueDate: t.dueDate, isDeleted: t.isDeleted };
+        const parentId = t.parentId ? this.resolveId(t.parentId) : undefined;
+        return { id: t.id, content: t.content, isCompleted: t.isCompleted, projectId: t.projectId, sectionId: t.sectionId, parentId, dueDate: t.dueDate, dueTimezone: t.dueTimezone, isRecurring: t.isRecurring, dueString: t.dueString, priority: t.priority, labels: t.labels, description: t.description, isDeleted: t.isDeleted, remoteUpdatedAt: t.remoteUpdatedAt };
+    }
+
+	getCachedProjects(): LocalProjectRecord[] {
+		return Object.values(this.localState.projectsById).sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	getProjectName(id: string): string | undefined {
+		return this.localState.projectsById[id]?.name;
+	}
+
+	getSections(): LocalSectionRecord[] {
+		return Object.values(this.localState.sectionsById)
+			.sort((a, b) => (a.order ?? 0) - (b.order ?? 0) || a.name.localeCompare(b.name));
+	}
+
+	getSectionName(id: string): string | undefined {
+		return this.localState.sectionsById[id]?.name;
+	}
+
+	getConflicts(): Record<TaskId, TaskConflict> {
+		return this.localState.conflictsById;
+	}
+
+	getConflict(id: TaskId): TaskConflict | undefined {
+		return this.localState.conflictsById[this.resolveId(id)];
+	}
+
+	// Emits 'conflict' the first time a task is found in conflict
+	setConflict(id: TaskId, conflict: TaskConflict) {
+		const canonical = this.resolveId(id);
+		const isNew = !this.localState.conflictsById[canonical];
+		this.localState.conflictsById[canonical] = conflict;
+		this.requestPersist();
+		if (isNew) this.trigger('conflict', canonical);
+	}
+
+	clearConflict(id: TaskId) {
+		const canonical = this.resolveId(id);
+		if (!this.localState.conflictsById[canonical]) return;
+		delete this.localState.conflictsById[canonical];
+		this.requestPersist();
+	}
+
+	// Open subtasks of a task that are not linked to any Markdown line yet (e.g. added in Todoist)
+	getUnlinkedChildTasks(parentId: TaskId): TaskId[] {
+		const canonical = this.resolveId(parentId);
+		return Object.values(this.localState.tasksById)
+			.filter(t => t.parentId && this.resolveId(t.parentId) === canonical)
+			.filter(t => !t.isCompleted && !t.isDeleted && !this.localState.lineShadowById[t.id])
+			.map(t => t.id);
+	}
+
+    getCachedLabels(): LocalLabelRecord[] {
+        return Object.values(this.localState.labelsById).sort((a, b) => a.name.localeCompare(b.name));
     }
 
     getLastFullSyncAt(): number | undefined {
         return this.localState.lastFullSyncAt;
     }
 
-	getLineShadow(id: TaskId): { content: string; isCompleted: boolean; projectId?: string; dueDate?: string } | undefined {
+	getLineShadow(id: TaskId): LineShadow | undefined {
 		const canonical = this.resolveId(id);
 		return this.localState.lineShadowById[canonical];
 	}
 
-	setLineShadow(id: TaskId, shadow: { content: string; isCompleted: boolean; projectId?: string; dueDate?: string }) {
+	setLineShadow(id: TaskId, shadow: LineShadow) {
 		const canonical = this.resolveId(id);
 		this.localState.lineShadowById[canonical] = shadow;
 		if (typeof id === 'string' && id.startsWith('local-') && this.localState.idAliasMap[id]) {
@@ -386,7 +477,7 @@ export class TodoistService extends Events {
     hasPendingOpsForId(id: TaskId): boolean {
         const canonical = this.resolveId(id);
         return this.localState.queue.some(op => {
-            if (op.type === 'create') return op.localId === canonical || op.localId === id;
+            if (op.type === 'create' || op.type === 'createProject') return op.localId === canonical || op.localId === id;
             return this.resolveId(op.id) === canonical;
         });
     }
@@ -400,16 +491,40 @@ export class TodoistService extends Events {
     private enqueue(op: SyncOperation) {
         const queue = this.localState.queue;
 
-        if (op.type !== 'create') {
+        // Pending changes to a deleted task are moot, and a task that never reached Todoist needs no delete at all
+        if (op.type === 'delete') {
+            const canonicalId = this.resolveId(op.id);
+            const created = queue.some(x => x.type === 'create' && x.localId === canonicalId);
+            this.localState.queue = queue.filter(x => (x.type === 'create' || x.type === 'createProject' ? x.localId : this.resolveId(x.id)) !== canonicalId);
+            if (!created) this.localState.queue.push(op);
+            this.requestPersist();
+            return;
+        }
+
+        if (op.type !== 'create' && op.type !== 'createProject') {
             const canonicalId = this.resolveId(op.id);
             if (canonicalId.startsWith('local-')) {
                 for (const existing of queue) {
                     if (existing.type === 'create' && existing.localId === canonicalId) {
                         if (op.type === 'update') {
-                            existing.content = op.content;
-                            existing.dueDate = op.dueDate;
+                            if (op.content !== undefined) existing.content = op.content;
+                            if (op.dueDate !== undefined || op.dueString !== undefined) {
+                                existing.dueDate = op.dueDate ?? undefined;
+                                existing.dueTimezone = op.dueTimezone;
+                                existing.dueString = op.dueString;
+                            }
+                            if (op.priority !== undefined) existing.priority = op.priority;
+                            if (op.labels !== undefined) existing.labels = op.labels;
+                            if (op.description !== undefined) existing.description = op.description;
                         } else if (op.type === 'move') {
-                            existing.projectId = op.projectId;
+                            if (op.parentId) {
+                                existing.parentId = op.parentId;
+                                existing.sectionId = undefined;
+                            } else {
+                                existing.projectId = op.projectId;
+                                existing.sectionId = op.sectionId;
+                                existing.parentId = undefined;
+                            }
                         } else if (op.type === 'close') {
                             existing.isCompleted = true;
                         } else if (op.type === 'reopen') {
@@ -426,7 +541,16 @@ export class TodoistService extends Events {
             for (let i = queue.length - 1; i >= 0; i--) {
                 const prev = queue[i];
                 if (prev.type === 'update' && this.resolveId(prev.id) === this.resolveId(op.id)) {
-                    queue[i] = op;
+                    // Fields the newer edit leaves alone keep their pending change
+                    const keepsDue = op.dueDate === undefined && op.dueString === undefined;
+                    queue[i] = {
+                        ...op,
+                        content: op.content ?? prev.content,
+                        ...(keepsDue ? { dueDate: prev.dueDate, dueTimezone: prev.dueTimezone, dueString: prev.dueString } : {}),
+                        priority: op.priority ?? prev.priority,
+                        labels: op.labels ?? prev.labels,
+                        description: op.description ?? prev.description
+                    };
                     this.requestPersist();
                     return;
                 }
@@ -444,10 +568,11 @@ export class TodoistService extends Events {
             }
         }
 
-        if (op.type === 'close' || op.type === 'reopen') {
+        // Every recurring completion advances one occurrence, so those are never merged
+        if ((op.type === 'close' && !op.recurring) || op.type === 'reopen') {
             for (let i = queue.length - 1; i >= 0; i--) {
                 const prev = queue[i];
-                if ((prev.type === 'close' || prev.type === 'reopen') && this.resolveId(prev.id) === this.resolveId(op.id)) {
+                if (((prev.type === 'close' && !prev.recurring) || prev.type === 'reopen') && this.resolveId(prev.id) === this.resolveId(op.id)) {
                     queue[i] = op;
                     this.requestPersist();
                     return;
@@ -462,7 +587,7 @@ export class TodoistService extends Events {
     async getProjects(): Promise<Project[]> {
         const cached = Object.values(this.localState.projectsById)
             .sort((a, b) => a.name.localeCompare(b.name))
-            .map(p => ({ id: p.id, name: p.name }) as unknown as Project);
+            .map(p => ({ id: p.id, name: p.name, parentId: p.parentId ?? null }) as unknown as Project);
 
         if (!this.api) return cached;
 
@@ -473,7 +598,7 @@ export class TodoistService extends Events {
 			await this.refreshProjectsViaSyncApi();
 			const refreshed = Object.values(this.localState.projectsById)
 				.sort((a, b) => a.name.localeCompare(b.name))
-				.map(p => ({ id: p.id, name: p.name }) as unknown as Project);
+				.map(p => ({ id: p.id, name: p.name, parentId: p.parentId ?? null }) as unknown as Project);
 			return refreshed;
 		} catch (error) {
 			console.error("Failed to get projects via Sync API, falling back to REST", error);
@@ -483,7 +608,7 @@ export class TodoistService extends Events {
 			const projects = await this.api.getProjects();
 			const updatedAt = this.now();
 			for (const project of projects) {
-				const rec: LocalProjectRecord = { id: project.id, name: project.name, updatedAt };
+				const rec: LocalProjectRecord = { id: project.id, name: project.name, parentId: project.parentId ?? undefined, color: project.color, updatedAt };
 				this.localState.projectsById[project.id] = rec;
 			}
 			this.localState.lastProjectsSyncAt = updatedAt;
@@ -495,16 +620,38 @@ export class TodoistService extends Events {
 		}
     }
 
-    getTasks(filter?: string): Promise<Task[]> {
+    getTasks(filter?: string): Promise<TaskListItem[]> {
         const now = this.now();
         const tasksById = this.localState.tasksById;
 
+        const toItem = (t: LocalTaskRecord): TaskListItem => {
+            const project = t.projectId ? this.localState.projectsById[t.projectId] : undefined;
+            return {
+                id: t.id,
+                content: t.content,
+                isCompleted: t.isCompleted,
+                projectId: t.projectId,
+                projectName: project?.name,
+                projectColor: project?.color,
+                sectionId: t.sectionId,
+                sectionName: t.sectionId ? this.localState.sectionsById[t.sectionId]?.name : undefined,
+                dueDate: t.dueDate,
+                dueTimezone: t.dueTimezone,
+                isRecurring: t.isRecurring,
+                dueString: t.dueString,
+                priority: t.priority,
+                labels: t.labels,
+                createdAt: t.createdAt,
+                order: t.order
+            };
+        };
+
         const fromIds = (ids: TaskId[]) => {
-            const result: Task[] = [];
+            const result: TaskListItem[] = [];
             for (const id of ids) {
                 const canonical = this.resolveId(id);
                 const t = tasksById[canonical];
-                if (t) result.push({ id: t.id, content: t.content, isCompleted: t.isCompleted, projectId: t.projectId } as unknown as Task);
+                if (t) result.push(toItem(t));
             }
             return result;
         };
@@ -512,48 +659,104 @@ export class TodoistService extends Events {
         const normalizedFilter = (filter ?? '').trim();
 
         if (normalizedFilter.length > 0) {
-            this.localState.filterLastUsedAt[normalizedFilter] = now;
-            this.requestPersist();
-            const ids = this.localState.filterResults[normalizedFilter];
-            if (ids) return Promise.resolve(fromIds(ids));
-
-            return Promise.resolve([]);
+            // Lists the local evaluator understands are answered from the cache; the others from Todoist's last results
+            const ctx = this.filterContext();
+            const ids: TaskId[] = [];
+            for (const list of parseFilter(normalizedFilter)) {
+                if (list.unsupported.length === 0) {
+                    ids.push(...evaluateFilterList(list, Object.values(tasksById), ctx).map(t => t.id));
+                    continue;
+                }
+                this.localState.filterLastUsedAt[list.source] = now;
+                this.requestPersist();
+                ids.push(...(this.localState.filterResults[list.source] ?? []));
+            }
+            return Promise.resolve(fromIds(Array.from(new Set(ids.map(id => this.resolveId(id))))));
         }
 
         const cachedActive = Object.values(tasksById)
             .filter(t => !t.isCompleted)
             .sort((a, b) => (b.updatedAt ?? now) - (a.updatedAt ?? now))
-            .map(t => ({ id: t.id, content: t.content, isCompleted: t.isCompleted, projectId: t.projectId } as unknown as Task));
+            .map(toItem);
 
         return Promise.resolve(cachedActive);
     }
 
-    createTask(content: string, projectId?: string, dueDate?: string): Promise<Task | null> {
+    /** Terms of a filter that only Todoist can evaluate; the lists using them show its last results. */
+    getRemoteFilterTerms(filter: string): string[] {
+        return parseFilter(filter.trim()).flatMap(list => list.unsupported);
+    }
+
+    private filterContext(): FilterContext {
+        return {
+            now: this.now(),
+            projects: Object.values(this.localState.projectsById),
+            sections: Object.values(this.localState.sectionsById)
+        };
+    }
+
+    /**
+     * Queues a new project and returns its local ID, usable as a task's project right away. A project
+     * with the same name and parent still waiting to be created is reused.
+     */
+    createProject(name: string, parentId?: string): string {
+        const pending = this.localState.queue.find(op => op.type === 'createProject' && op.name === name && (op.parentId ?? undefined) === (parentId ?? undefined));
+        if (pending && pending.type === 'createProject') return pending.localId;
+        const localId = createLocalId();
+        const now = this.now();
+		debug('enqueue:createProject', { localId, name, parentId });
+        this.localState.projectsById[localId] = { id: localId, name, parentId, updatedAt: now };
+        this.enqueue({ type: 'createProject', opId: createOperationId(), localId, name, parentId, queuedAt: now, attempts: 0 });
+        return localId;
+    }
+
+    createTask(content: string, projectId?: string, fields: TaskFields = {}, parentId?: TaskId): Promise<Task | null> {
+        const { dueString, priority, labels, description } = fields;
+        const dueDate = fields.dueDate ?? undefined;
+        const dueTimezone = dueDate ? fields.dueTimezone : undefined;
         const localId = createLocalId();
         const now = this.now();
-		debug('enqueue:create', { localId, projectId: projectId || undefined });
+		debug('enqueue:create', { localId, projectId: projectId || undefined, sectionId: fields.sectionId, parentId });
+		// Subtasks always live in their parent's project and section; a section decides the project
+		let sectionId = parentId ? undefined : fields.sectionId;
+		if (parentId) {
+			const parent = this.localState.tasksById[this.resolveId(parentId)];
+			projectId = parent?.projectId;
+			sectionId = parent?.sectionId;
+		} else if (sectionId) {
+			projectId = this.localState.sectionsById[sectionId]?.projectId ?? projectId;
+		}
         const rec: LocalTaskRecord = {
             id: localId,
             content,
             isCompleted: false,
             projectId,
+            sectionId,
+            parentId,
             dueDate,
+            dueTimezone,
+            priority,
+            labels,
+            description,
             isRecurring: false,
 			isDeleted: false,
+            createdByPlugin: true,
+            createdAt: now,
             source: 'local',
             updatedAt: now
         };
         this.localState.tasksById[localId] = rec;
-        this.enqueue({ type: 'create', opId: createOperationId(), localId, content, projectId, dueDate, queuedAt: now, attempts: 0 });
+        this.enqueue({ type: 'create', opId: createOperationId(), localId, content, projectId: parentId ? undefined : projectId, sectionId: parentId ? undefined : sectionId, parentId, dueDate, dueTimezone, dueString, priority, labels, description, queuedAt: now, attempts: 0 });
         this.requestPersist();
         this.triggerRefresh();
-        return Promise.resolve({ id: localId, content, isCompleted: false, projectId } as unknown as Task);
+        return Promise.resolve({ id: localId, content, isCompleted: false, projectId, sectionId, parentId } as unknown as Task);
     }
 
     closeTask(id: string): Promise<boolean> {
         const canonical = this.resolveId(id);
 		debug('enqueue:close', { id, canonical });
         const task = this.localState.tasksById[canonical];
+        if (task?.isRecurring) return this.completeRecurringTask(canonical);
         if (task) {
             task.isCompleted = true;
             task.updatedAt = this.now();
@@ -563,6 +766,17 @@ export class TodoistService extends Events {
         return Promise.resolve(true);
     }
 
+	// A completed recurring task stays open; the flush response brings its next due date
+	private completeRecurringTask(canonical: TaskId): Promise<boolean> {
+		debug('enqueue:close:recurring', { id: canonical });
+		this.enqueue({ type: 'close', opId: createOperationId(), id: canonical, recurring: true, queuedAt: this.now(), attempts: 0 });
+		return Promise.resolve(true);
+	}
+
+	isRecurringTask(id: TaskId): boolean {
+		return this.localState.tasksById[this.resolveId(id)]?.isRecurring === true;
+	}
+
     reopenTask(id: string): Promise<boolean> {
         const canonical = this.resolveId(id);
 		debug('enqueue:reopen', { id, canonical });
@@ -576,42 +790,98 @@ export class TodoistService extends Events {
         return Promise.resolve(true);
     }
 
-    updateTask(id: string, content: string, dueDate?: string): Promise<boolean> {
+    deleteTask(id: string): Promise<boolean> {
+        const canonical = this.resolveId(id);
+		debug('enqueue:delete', { id, canonical });
+        const task = this.localState.tasksById[canonical];
+        if (task) {
+            task.isDeleted = true;
+            task.isCompleted = true;
+            task.updatedAt = this.now();
+            this.writeTask(task);
+        }
+        this.enqueue({ type: 'delete', opId: createOperationId(), id: canonical, queuedAt: this.now(), attempts: 0 });
+        return Promise.resolve(true);
+    }
+
+	// Open tasks created from notes; tasks created before `createdByPlugin` existed are known by their ID mapping
+	getPluginCreatedOpenTaskIds(): TaskId[] {
+		const mapped = new Set(Object.values(this.localState.idAliasMap));
+		return Object.values(this.localState.tasksById)
+			.filter(t => !t.isCompleted && !t.isDeleted)
+			.filter(t => t.createdByPlugin || t.source === 'local' || mapped.has(t.id))
+			.map(t => t.id);
+	}
+
+    // `content` undefined leaves the text as it is, like the other fields left out
+    updateTask(id: string, content: string | undefined, fields: TaskFields = {}): Promise<boolean> {
+        // A due string is resolved by Todoist; the local due date is refreshed from the result
+        const { dueDate, dueString, priority, labels, description } = fields;
+        const dueTimezone = dueDate ? fields.dueTimezone : undefined;
         const canonical = this.resolveId(id);
 		debug('enqueue:update', { id, canonical });
         const task = this.localState.tasksById[canonical];
         if (task) {
-            task.content = content;
-            task.dueDate = dueDate;
+            if (content !== undefined) task.content = content;
+            if (dueDate !== undefined) {
+                task.dueDate = dueDate ?? undefined;
+                task.dueTimezone = dueTimezone;
+            }
+            if (priority !== undefined) task.priority = priority;
+            if (labels !== undefined) task.labels = labels;
+            if (description !== undefined) task.description = description;
             task.updatedAt = this.now();
             this.writeTask(task);
-        } else {
+        } else if (content !== undefined) {
             const now = this.now();
             this.localState.tasksById[canonical] = {
                 id: canonical,
                 content,
                 isCompleted: false,
-                dueDate,
+                dueDate: dueDate ?? undefined,
+                dueTimezone,
+                priority,
+                labels,
+                description,
 				isDeleted: false,
                 source: 'local',
                 updatedAt: now
             };
             this.requestPersist();
         }
-        this.enqueue({ type: 'update', opId: createOperationId(), id: canonical, content, dueDate, queuedAt: this.now(), attempts: 0 });
+        this.enqueue({ type: 'update', opId: createOperationId(), id: canonical, content, dueDate, dueTimezone, dueString, priority, labels, description, queuedAt: this.now(), attempts: 0 });
         return Promise.resolve(true);
     }
 
-    moveTask(id: string, projectId: string): Promise<boolean> {
+    moveTask(id: string, projectId: string, sectionId?: string): Promise<boolean> {
         const canonical = this.resolveId(id);
-		debug('enqueue:move', { id, canonical, projectId });
+		debug('enqueue:move', { id, canonical, projectId, sectionId });
         const task = this.localState.tasksById[canonical];
         if (task) {
             task.projectId = projectId;
+            task.sectionId = sectionId;
+            task.parentId = undefined;
             task.updatedAt = this.now();
             this.writeTask(task);
         }
-        this.enqueue({ type: 'move', opId: createOperationId(), id: canonical, projectId, queuedAt: this.now(), attempts: 0 });
+        this.enqueue({ type: 'move', opId: createOperationId(), id: canonical, projectId, sectionId, queuedAt: this.now(), attempts: 0 });
+        return Promise.resolve(true);
+    }
+
+    reparentTask(id: string, parentId: TaskId): Promise<boolean> {
+        const canonical = this.resolveId(id);
+        const canonicalParent = this.resolveId(parentId);
+		debug('enqueue:reparent', { id, canonical, parentId: canonicalParent });
+        const task = this.localState.tasksById[canonical];
+        if (task) {
+            task.parentId = canonicalParent;
+            const parent = this.localState.tasksById[canonicalParent];
+            if (parent?.projectId) task.projectId = parent.projectId;
+            task.sectionId = parent?.sectionId;
+            task.updatedAt = this.now();
+            this.writeTask(task);
+        }
+        this.enqueue({ type: 'move', opId: createOperationId(), id: canonical, parentId: canonicalParent, queuedAt: this.now(), attempts: 0 });
         return Promise.resolve(true);
     }
 
@@ -628,6 +898,7 @@ export class TodoistService extends Events {
             this.requestPersist();
             try {
                 await this.getProjects();
+                await this.ensureSnapshotsLoaded();
                 await this.flushQueueToRemote({ triggerRefresh: false });
                 await this.refreshFromRemote({ triggerRefresh: false });
 				this.triggerRefresh();
@@ -681,9 +952,12 @@ export class TodoistService extends Events {
             this.requestPersist();
             try {
                 await this.getProjects();
+                await this.ensureSnapshotsLoaded();
                 await this.flushQueueToRemote({ triggerRefresh: false });
 				await this.refreshFromRemote({ triggerRefresh: false });
-                await this.refreshFilterIdsViaRest(normalized, { triggerRefresh: false });
+                for (const list of parseFilter(normalized)) {
+                    if (list.unsupported.length > 0) await this.refreshFilterIdsViaRest(list.source, { triggerRefresh: false });
+                }
 				this.triggerRefresh();
 
                 this.localState.status.lastSuccessfulSyncAt = this.now();
@@ -765,18 +1039,69 @@ export class TodoistService extends Events {
                 delete this.localState.projectsById[id];
                 continue;
             }
-            this.localState.projectsById[id] = { id, name: typeof p.name === 'string' ? p.name : '', updatedAt: now };
+            const parentId = typeof p.parent_id === 'string' || typeof p.parent_id === 'number' ? String(p.parent_id) : undefined;
+            const color = typeof p.color === 'string' ? p.color : undefined;
+            this.localState.projectsById[id] = { id, name: typeof p.name === 'string' ? p.name : '', parentId, color, updatedAt: now };
         }
         this.localState.lastProjectsSyncAt = now;
     }
 
-    private applySyncApiItems(items: unknown[] | undefined) {
-        if (!items) return;
+    private applySyncApiSections(sections: unknown[] | undefined) {
+        if (!sections) return;
         const now = this.now();
+        for (const x of sections) {
+            if (!this.isRecord(x)) continue;
+            const id = typeof x.id === 'string' || typeof x.id === 'number' ? String(x.id) : '';
+            if (!id) continue;
+
+            if (x.is_deleted === true || x.is_archived === true) {
+                delete this.localState.sectionsById[id];
+                continue;
+            }
+            const projectId = typeof x.project_id === 'string' || typeof x.project_id === 'number' ? String(x.project_id) : '';
+            this.localState.sectionsById[id] = {
+                id,
+                name: typeof x.name === 'string' ? x.name : '',
+                projectId,
+                order: typeof x.section_order === 'number' ? x.section_order : undefined,
+                updatedAt: now
+            };
+        }
+        this.localState.lastSectionsSyncAt = now;
+    }
+
+    private applySyncApiLabels(labels: unknown[] | undefined) {
+        if (!labels) return;
+        const now = this.now();
+        for (const l of labels) {
+            if (!this.isRecord(l)) continue;
+            const id = typeof l.id === 'string' || typeof l.id === 'number' ? String(l.id) : '';
+            if (!id) continue;
+
+            if (l.is_deleted === true) {
+                delete this.localState.labelsById[id];
+                continue;
+            }
+            this.localState.labelsById[id] = { id, name: typeof l.name === 'string' ? l.name : '', updatedAt: now };
+        }
+        this.localState.lastLabelsSyncAt = now;
+    }
+
+    private extractLabelsFromUnknown(value: unknown): string[] {
+        if (!Array.isArray(value)) return [];
+        return value.filter((x): x is string => typeof x === 'string');
+    }
+
+    // Returns the IDs of the tasks Todoist reported as changed
+    private applySyncApiItems(items: unknown[] | undefined): TaskId[] {
+        if (!items) return [];
+        const now = this.now();
+        const changedIds: TaskId[] = [];
         for (const it of items) {
             if (!this.isRecord(it)) continue;
             const id = typeof it.id === 'string' || typeof it.id === 'number' ? String(it.id) : '';
             if (!id) continue;
+            changedIds.push(id);
             const hasPending = this.hasPendingOpsForId(id);
 
             if (it.is_deleted === true) {
@@ -790,7 +1115,7 @@ export class TodoistService extends Events {
 
 					const before = this.localState.queue.length;
 					this.localState.queue = this.localState.queue.filter(op => {
-						if (op.type === 'create') return op.localId !== id;
+						if (op.type === 'create' || op.type === 'createProject') return op.localId !== id;
 						return this.resolveId(op.id) !== id;
 					});
 					if (this.localState.queue.length !== before) this.requestPersist();
@@ -800,7 +1125,14 @@ export class TodoistService extends Events {
 
             const dueObj = it.due;
             const due = this.extractDueFromUnknown(dueObj);
+            const updatedAt = typeof it.updated_at === 'string' ? Date.parse(it.updated_at) : NaN;
+            const remoteUpdatedAt = Number.isFinite(updatedAt) ? updatedAt : now;
             const isCompleted = it.checked === true || it.is_archived === true;
+            const parentId = typeof it.parent_id === 'string' || typeof it.parent_id === 'number' ? String(it.parent_id) : undefined;
+            const sectionId = typeof it.section_id === 'string' || typeof it.section_id === 'number' ? String(it.section_id) : undefined;
+            const addedAt = typeof it.added_at === 'string' ? Date.parse(it.added_at) : NaN;
+            const createdAt = Number.isFinite(addedAt) ? addedAt : undefined;
+            const order = typeof it.child_order === 'number' ? it.child_order : undefined;
 
             const local = this.localState.tasksById[id];
             if (!local) {
@@ -809,12 +1141,22 @@ export class TodoistService extends Events {
                     content: typeof it.content === 'string' ? it.content : '',
                     isCompleted,
                     projectId: typeof it.project_id === 'string' || typeof it.project_id === 'number' ? String(it.project_id) : undefined,
+                    sectionId,
+                    parentId,
                     dueDate: due.dueDate,
+                    dueTimezone: due.dueTimezone,
+                    priority: typeof it.priority === 'number' ? it.priority : undefined,
+                    labels: this.extractLabelsFromUnknown(it.labels),
+                    description: typeof it.description === 'string' ? it.description : undefined,
                     isRecurring: due.isRecurring,
+                    dueString: due.dueString,
 					isDeleted: false,
                     source: 'remote',
                     updatedAt: now,
-                    lastRemoteSeenAt: now
+                    lastRemoteSeenAt: now,
+                    remoteUpdatedAt,
+                    createdAt,
+                    order
                 };
                 continue;
             }
@@ -822,29 +1164,52 @@ export class TodoistService extends Events {
             local.lastRemoteSeenAt = now;
             if (hasPending) continue;
 
+            local.remoteUpdatedAt = remoteUpdatedAt;
             local.content = typeof it.content === 'string' ? it.content : '';
             local.isCompleted = isCompleted;
             local.projectId = typeof it.project_id === 'string' || typeof it.project_id === 'number' ? String(it.project_id) : undefined;
+            local.sectionId = sectionId;
+            local.parentId = parentId;
             local.dueDate = due.dueDate;
+            local.dueTimezone = due.dueTimezone;
+            local.priority = typeof it.priority === 'number' ? it.priority : undefined;
+            local.labels = this.extractLabelsFromUnknown(it.labels);
+            local.description = typeof it.description === 'string' ? it.description : undefined;
             local.isRecurring = due.isRecurring;
+            local.dueString = due.dueString;
+            local.createdAt = createdAt ?? local.createdAt;
+            local.order = order;
 			local.isDeleted = false;
             local.source = 'remote';
             local.updatedAt = now;
         }
 
         this.localState.lastFullSyncAt = now;
+        return changedIds;
     }
 
-    private extractDueFromUnknown(value: unknown): { dueDate?: string; isRecurring?: boolean } {
+    private extractDueFromUnknown(value: unknown): { dueDate?: string; dueTimezone?: string; isRecurring?: boolean; dueString?: string } {
         if (!this.isRecord(value)) return {};
-        const dueDate =
-            typeof value.date === 'string'
-                ? value.date
-                : typeof value.datetime === 'string'
-                    ? value.datetime.slice(0, 10)
+        // REST returns the time in `datetime`; the Sync API puts it in `date`
+        const raw =
+            typeof value.datetime === 'string'
+                ? value.datetime
+                : typeof value.date === 'string'
+                    ? value.date
                     : undefined;
+        const dueTimezone = typeof value.timezone === 'string' && value.timezone ? value.timezone : undefined;
+        const dueDate = raw ? fromTodoistDue(raw, dueTimezone) : undefined;
         const isRecurring = value.is_recurring === true || value.isRecurring === true;
-        return { dueDate, isRecurring };
+        const dueString = isRecurring && typeof value.string === 'string' && value.string.trim() ? value.string.trim() : undefined;
+        return { dueDate, dueTimezone: dueDate?.includes('T') ? dueTimezone : undefined, isRecurring, dueString };
+    }
+
+    // A due string alone is parsed by Todoist; with a date it keeps a recurring rule while pinning the next occurrence
+    private toSyncApiDueArg(op: { dueDate?: string | null; dueTimezone?: string; dueString?: string }): Record<string, unknown> | null | undefined {
+        if (op.dueString && op.dueDate) return { ...toSyncApiDue(op.dueDate, op.dueTimezone), string: op.dueString };
+        if (op.dueString) return { string: op.dueString };
+        if (op.dueDate) return toSyncApiDue(op.dueDate, op.dueTimezone);
+        return op.dueDate === null ? null : undefined;
     }
 
     private extractProjectIdFromTask(task: Task): string | undefined {
@@ -855,7 +1220,12 @@ export class TodoistService extends Events {
         return undefined;
     }
 
-    private extractDueFromTask(task: Task): { dueDate?: string; isRecurring?: boolean } {
+    private extractCreatedAtFromTask(task: Task): number | undefined {
+        const createdAt = Date.parse(task.createdAt);
+        return Number.isFinite(createdAt) ? createdAt : undefined;
+    }
+
+    private extractDueFromTask(task: Task): { dueDate?: string; dueTimezone?: string; isRecurring?: boolean; dueString?: string } {
         const t: unknown = task;
         if (!this.isRecord(t)) return {};
         return this.extractDueFromUnknown(t.due);
@@ -869,6 +1239,12 @@ export class TodoistService extends Events {
             this.localState.idAliasMap[localId] = newId;
             didChange = true;
 
+			const project = this.localState.projectsById[localId];
+			if (project) {
+				this.applyProjectIdMapping(localId, newId, project);
+				continue;
+			}
+
 			this.moveLineShadow(localId, newId);
 
             const existing = this.localState.tasksById[localId];
@@ -876,24 +1252,85 @@ export class TodoistService extends Events {
                 delete this.localState.tasksById[localId];
                 existing.id = newId;
                 this.localState.tasksById[newId] = existing;
+            } else if (existing?.createdByPlugin) {
+                this.localState.tasksById[newId].createdByPlugin = true;
             }
 
             for (const [filter, ids] of Object.entries(this.localState.filterResults)) {
                 this.localState.filterResults[filter] = ids.map(x => (x === localId ? newId : x));
             }
+
+            for (const t of Object.values(this.localState.tasksById)) {
+                if (t.parentId === localId) t.parentId = newId;
+            }
+            for (const shadow of Object.values(this.localState.lineShadowById)) {
+                if (shadow.parentId === localId) shadow.parentId = newId;
+            }
         }
 
         if (didChange) this.trigger('id-mapping-updated');
     }
 
+    // A project added from a tag now has its Todoist ID; tasks, shadows and queued ops still name the local one
+    private applyProjectIdMapping(localId: string, newId: string, project: LocalProjectRecord) {
+        delete this.localState.projectsById[localId];
+        if (!this.localState.projectsById[newId]) this.localState.projectsById[newId] = { ...project, id: newId };
+        for (const p of Object.values(this.localState.projectsById)) {
+            if (p.parentId === localId) p.parentId = newId;
+        }
+        for (const t of Object.values(this.localState.tasksById)) {
+            if (t.projectId === localId) t.projectId = newId;
+        }
+        for (const shadow of Object.values(this.localState.lineShadowById)) {
+            if (shadow.projectId === localId) shadow.projectId = newId;
+        }
+        for (const op of this.localState.queue) {
+            if ((op.type === 'create' || op.type === 'move') && op.projectId === localId) op.projectId = newId;
+            if (op.type === 'createProject' && op.parentId === localId) op.parentId = newId;
+        }
+    }
+
     private async refreshProjectsViaSyncApi() {
         try {
             const json = await this.syncApiRequest({
                 syncToken: this.getSyncTokenForRequest(),
-                resourceTypes: ['projects']
+                resourceTypes: ['projects', 'sections']
             });
             if (typeof json.sync_token === 'string') this.localState.syncToken = json.sync_token;
             this.applySyncApiProjects(json.projects);
+            this.applySyncApiSections(json.sections);
+            this.requestPersist();
+        } catch (e) {
+            const msg = e instanceof Error ? e.message : String(e);
+            this.localState.status.lastErrorMessage = msg;
+            this.localState.status.lastErrorAt = this.now();
+            this.requestPersist();
+        }
+    }
+
+    // Resources cached before the plugin kept all it now needs are loaded again in full, once each:
+    // projects without their parents, sections, labels, and tasks without priority, labels and
+    // descriptions (so a line edit is not taken for a change of those fields)
+    private async ensureSnapshotsLoaded() {
+        await this.loadSnapshotOnce(this.localState.lastProjectTreeSyncAt, ['projects'], (json) => {
+            this.applySyncApiProjects(json.projects);
+            this.localState.lastProjectTreeSyncAt = this.now();
+        });
+        await this.loadSnapshotOnce(this.localState.lastSectionsSyncAt, ['sections'], json => this.applySyncApiSections(json.sections));
+        await this.loadSnapshotOnce(this.localState.lastLabelsSyncAt, ['labels'], json => this.applySyncApiLabels(json.labels));
+        await this.loadSnapshotOnce(this.localState.lastItemFieldsSyncAt, ['items'], (json) => {
+            const changedIds = this.applySyncApiItems(json.items);
+            this.localState.lastItemFieldsSyncAt = this.now();
+            if (changedIds.length > 0) this.trigger('tasks-changed', changedIds);
+        });
+    }
+
+    // `apply` records the load; the returned token is not stored so item deltas are not skipped.
+    private async loadSnapshotOnce(loadedAt: number | undefined, resourceTypes: string[], apply: (json: SyncApiResponse) => void) {
+        if (!this.api || loadedAt !== undefined) return;
+        try {
+            const json = await this.syncApiRequest({ syncToken: '*', resourceTypes });
+            apply(json);
             this.requestPersist();
         } catch (e) {
             const msg = e instanceof Error ? e.message : String(e);
@@ -908,16 +1345,19 @@ export class TodoistService extends Events {
         try {
             const json = await this.syncApiRequest({
                 syncToken: this.getSyncTokenForRequest(),
-                resourceTypes: ['projects', 'items']
+                resourceTypes: ['projects', 'sections', 'labels', 'items']
             });
 
             if (typeof json.sync_token === 'string') this.localState.syncToken = json.sync_token;
             this.applySyncApiTempIdMapping(json.temp_id_mapping);
             this.applySyncApiProjects(json.projects);
-            this.applySyncApiItems(json.items);
+            this.applySyncApiSections(json.sections);
+            this.applySyncApiLabels(json.labels);
+            const changedIds = this.applySyncApiItems(json.items);
 
             this.localState.status.lastSuccessfulSyncAt = now;
             this.requestPersist();
+			if (changedIds.length > 0) this.trigger('tasks-changed', changedIds);
 			if (opts?.triggerRefresh !== false) this.triggerRefresh();
         } catch (e) {
             const msg = e instanceof Error ? e.message : String(e);
@@ -937,6 +1377,9 @@ export class TodoistService extends Events {
 
         const commands: SyncApiCommand[] = [];
         const createdToComplete: { localId: string }[] = [];
+        // Temp ids added earlier in this batch can be referenced by later commands
+        const batchTempIds = new Set<string>();
+        const isUnresolvable = (id: string) => id.startsWith('local-') && !this.localState.idAliasMap[id] && !batchTempIds.has(id);
 
         for (const op of queue) {
             if (op.nextRetryAt && op.nextRetryAt > now) continue;
@@ -944,23 +1387,61 @@ export class TodoistService extends Events {
 				op.opId = createOperationId();
 			}
 
-            if (op.type === 'create') {
+            if (op.type === 'createProject') {
+                const args: Record<string, unknown> = { name: op.name };
+                if (op.parentId) {
+                    const parentId = this.resolveId(op.parentId);
+                    if (isUnresolvable(parentId)) continue;
+                    args.parent_id = parentId;
+                }
+                commands.push({ type: 'project_add', temp_id: op.localId, uuid: op.opId, args });
+                batchTempIds.add(op.localId);
+            } else if (op.type === 'create') {
                 const args: Record<string, unknown> = { content: op.content };
-                if (op.projectId) args.project_id = op.projectId;
-                if (op.dueDate) args.due = { date: op.dueDate };
+                if (op.parentId) {
+                    const parentId = this.resolveId(op.parentId);
+                    if (isUnresolvable(parentId)) continue;
+                    args.parent_id = parentId;
+                } else if (op.sectionId) {
+                    args.section_id = op.sectionId;
+                } else if (op.projectId) {
+                    // May be the temp id of a project added earlier in this batch
+                    const projectId = this.resolveId(op.projectId);
+                    if (isUnresolvable(projectId)) continue;
+                    args.project_id = projectId;
+                }
+                const due = this.toSyncApiDueArg(op);
+                if (due) args.due = due;
+                if (op.priority) args.priority = op.priority;
+                if (op.labels && op.labels.length > 0) args.labels = op.labels;
+                if (op.description) args.description = op.description;
                 commands.push({ type: 'item_add', temp_id: op.localId, uuid: op.opId, args });
+                batchTempIds.add(op.localId);
                 if (op.isCompleted) createdToComplete.push({ localId: op.localId });
             } else if (op.type === 'update') {
                 const id = this.resolveId(op.id);
                 if (id.startsWith('local-') && !this.localState.idAliasMap[id]) continue;
-                const args: Record<string, unknown> = { id, content: op.content };
-                if (op.dueDate) args.due = { date: op.dueDate };
+                const args: Record<string, unknown> = { id };
+                if (op.content !== undefined) args.content = op.content;
+                const due = this.toSyncApiDueArg(op);
+                if (due !== undefined) args.due = due;
+                if (op.priority) args.priority = op.priority;
+                if (op.labels) args.labels = op.labels;
+                if (op.description !== undefined) args.description = op.description;
                 commands.push({ type: 'item_update', uuid: op.opId, args });
 			} else if (op.type === 'move') {
 				const id = this.resolveId(op.id);
 				if (id.startsWith('local-') && !this.localState.idAliasMap[id]) continue;
-				if (op.projectId) {
-					commands.push({ type: 'item_move', uuid: op.opId, args: { id, project_id: op.projectId } });
+				if (op.parentId) {
+					const parentId = this.resolveId(op.parentId);
+					if (isUnresolvable(parentId)) continue;
+					commands.push({ type: 'item_move', uuid: op.opId, args: { id, parent_id: parentId } });
+				} else if (op.sectionId) {
+					commands.push({ type: 'item_move', uuid: op.opId, args: { id, section_id: op.sectionId } });
+				} else if (op.projectId) {
+					const projectId = this.resolveId(op.projectId);
+					if (isUnresolvable(projectId)) continue;
+					commands.push({ type: 'item_move', uuid: op.opId, args: { id, project_id: projectId } });
 				}
             } else if (op.type === 'close') {
                 const id = this.resolveId(op.id);
@@ -970,6 +1451,10 @@ export class TodoistService extends Events {
                 const id = this.resolveId(op.id);
                 if (id.startsWith('local-') && !this.localState.idAliasMap[id]) continue;
                 commands.push({ type: 'item_uncomplete', uuid: op.opId, args: { id } });
+            } else if (op.type === 'delete') {
+                const id = this.resolveId(op.id);
+                if (id.startsWith('local-') && !this.localState.idAliasMap[id]) continue;
+                commands.push({ type: 'item_delete', uuid: op.opId, args: { id } });
             }
         }
 
@@ -978,7 +1463,7 @@ export class TodoistService extends Events {
 
         const json = await this.syncApiRequest({
             syncToken,
-            resourceTypes: ['projects', 'items'],
+            resourceTypes: ['projects', 'sections', 'labels', 'items'],
             commands
         });
 		debug('syncApi:flush:response', { hasSyncStatus: Boolean(json.sync_status), items: Array.isArray(json.items) ? json.items.length : 0 });
@@ -996,7 +1481,8 @@ export class TodoistService extends Events {
         if (typeof json.sync_token === 'string') this.localState.syncToken = json.sync_token;
         this.applySyncApiTempIdMapping(json.temp_id_mapping);
         this.applySyncApiProjects(json.projects);
-        this.applySyncApiItems(json.items);
+        this.applySyncApiSections(json.sections);
+        this.applySyncApiLabels(json.labels);
 
         const syncStatus: Record<string, unknown> = this.isRecord(json.sync_status) ? json.sync_status : {};
 
@@ -1014,7 +1500,8 @@ export class TodoistService extends Events {
             }
 
             if (status === 'ok') {
-				if (op.type === 'close' || op.type === 'reopen') {
+				// Todoist moves a recurring task to its next date and returns it open, so 'ok' is all there is to check
+				if ((op.type === 'close' && !op.recurring) || op.type === 'reopen') {
 					const id = this.resolveId(op.id);
 					const item = itemsById[id];
 					const confirmed = this.isRecord(item)
@@ -1057,9 +1544,17 @@ export class TodoistService extends Events {
 				this.notifiedOpIds.add(op.opId);
 				new Notice(`Obsidoist: ${op.type === 'close' ? 'complete' : 'reopen'} failed; will retry. ${msg}`);
 			}
+			// Free plans cap the number of projects, so say which one could not be added
+			if (op.type === 'createProject' && !this.notifiedOpIds.has(op.opId)) {
+				this.notifiedOpIds.add(op.opId);
+				new Notice(`Obsidoist: could not create project "${op.name}"; will retry. ${msg}`);
+			}
             i++;
         }
 
+        // Applied once confirmed ops have left the queue, so their tasks take the returned state
+        const changedIds = this.applySyncApiItems(json.items);
+
         if (createdToComplete.length > 0) {
             const ids: string[] = [];
             for (const x of createdToComplete) {
@@ -1078,11 +1573,12 @@ export class TodoistService extends Events {
                     commands: completeCmds
                 });
                 if (typeof json2.sync_token === 'string') this.localState.syncToken = json2.sync_token;
-                this.applySyncApiItems(json2.items);
+                changedIds.push(...this.applySyncApiItems(json2.items));
             }
         }
 
         this.requestPersist();
+		if (changedIds.length > 0) this.trigger('tasks-changed', changedIds);
 		if (opts?.triggerRefresh !== false) this.triggerRefresh();
     }
 
@@ -1111,8 +1607,17 @@ export class TodoistService extends Events {
                     content: task.content,
                     isCompleted: task.isCompleted ?? false,
                     projectId: this.extractProjectIdFromTask(task),
+                    sectionId: task.sectionId ?? undefined,
+                    parentId: task.parentId ?? undefined,
                     dueDate: due.dueDate,
+                    dueTimezone: due.dueTimezone,
+                    priority: task.priority,
+                    labels: task.labels,
+                    description: task.description,
                     isRecurring: due.isRecurring,
+                    dueString: due.dueString,
+                    createdAt: this.extractCreatedAtFromTask(task),
+                    order: task.order,
 					isDeleted: false,
                     source: 'remote',
                     updatedAt: now,
@@ -1128,8 +1633,17 @@ export class TodoistService extends Events {
             local.isCompleted = task.isCompleted ?? false;
             const due = this.extractDueFromTask(task);
             local.projectId = this.extractProjectIdFromTask(task);
+            local.sectionId = task.sectionId ?? undefined;
+            local.parentId = task.parentId ?? undefined;
             local.dueDate = due.dueDate;
+            local.dueTimezone = due.dueTimezone;
+            local.priority = task.priority;
+            local.labels = task.labels;
+            local.description = task.description;
             local.isRecurring = due.isRecurring;
+            local.dueString = due.dueString;
+            local.createdAt = this.extractCreatedAtFromTask(task) ?? local.createdAt;
+            local.order = task.order;
             local.source = 'remote';
             local.updatedAt = now;
         }
@@ -1172,8 +1686,17 @@ export class TodoistService extends Events {
                     content: task.content,
                     isCompleted: false,
                     projectId: this.extractProjectIdFromTask(task),
+                    sectionId: task.sectionId ?? undefined,
+                    parentId: task.parentId ?? undefined,
                     dueDate: due.dueDate,
+                    dueTimezone: due.dueTimezone,
+                    priority: task.priority,
+                    labels: task.labels,
+                    description: task.description,
                     isRecurring: due.isRecurring,
+                    dueString: due.dueString,
+                    createdAt: this.extractCreatedAtFromTask(task),
+                    order: task.order,
 					isDeleted: false,
                     source: 'remote',
                     updatedAt: now,
@@ -1188,8 +1711,17 @@ export class TodoistService extends Events {
             local.content = task.content;
             const due = this.extractDueFromTask(task);
             local.projectId = this.extractProjectIdFromTask(task);
+            local.sectionId = task.sectionId ?? undefined;
+            local.parentId = task.parentId ?? undefined;
             local.dueDate = due.dueDate;
+            local.dueTimezone = due.dueTimezone;
+            local.priority = task.priority;
+            local.labels = task.labels;
+            local.description = task.description;
             local.isRecurring = due.isRecurring;
+            local.dueString = due.dueString;
+            local.createdAt = this.extractCreatedAtFromTask(task) ?? local.createdAt;
+            local.order = task.order;
             local.source = 'remote';
             local.updatedAt = now;
         }
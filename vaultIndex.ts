@@ -0,0 +1,170 @@
+import { App, Events, TFile } from 'obsidian';
+import { ObsidoistLocalState, TaskId, TaskLocation } from './localState';
+import { TodoistService } from './todoistService';
+import { findInertLines, isCheckboxLine } from './markdownScan';
+import { findTaskId } from './taskIdCodec';
+
+export interface TaskLineRef {
+	id: TaskId;
+	file: TFile;
+	line: number;
+}
+
+/**
+ * Persistent map of which notes contain which task IDs, and on which lines, so remote changes
+ * can be written to every affected note and a task can be found from its ID.
+ * Emits 'lines-removed' (path, ids) when task lines disappear from a note, and 'file-removed'
+ * (path, ids) when a note holding task lines is deleted.
+ */
+export class VaultIndex extends Events {
+	private app: App;
+	private service: TodoistService;
+	private localState: ObsidoistLocalState;
+	private requestPersist: () => void;
+
+	constructor(app: App, service: TodoistService, localState: ObsidoistLocalState, requestPersist: () => void) {
+		super();
+		this.app = app;
+		this.service = service;
+		this.localState = localState;
+		this.requestPersist = requestPersist;
+	}
+
+	isBuilt(): boolean {
+		return this.localState.lastVaultIndexAt !== undefined;
+	}
+
+	async rebuild(): Promise<void> {
+		const taskLinesByPath: Record<string, TaskLocation[]> = {};
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const locations = this.extractTaskLines(await this.app.vault.cachedRead(file));
+			if (locations.length > 0) taskLinesByPath[file.path] = locations;
+		}
+		this.localState.taskLinesByPath = taskLinesByPath;
+		this.localState.lastVaultIndexAt = Date.now();
+		this.requestPersist();
+	}
+
+	async indexFile(file: TFile): Promise<void> {
+		if (file.extension !== 'md') return;
+		this.indexContent(file.path, await this.app.vault.cachedRead(file));
+	}
+
+	indexContent(path: string, content: string) {
+		const locations = this.extractTaskLines(content);
+		const current = this.localState.taskLinesByPath[path];
+		this.reportRemoved(path, current, locations);
+		if (locations.length === 0) {
+			if (!current) return;
+			delete this.localState.taskLinesByPath[path];
+		} else {
+			const same = current && current.length === locations.length
+				&& current.every((x, i) => x.id === locations[i].id && x.line === locations[i].line);
+			if (same) return;
+			this.localState.taskLinesByPath[path] = locations;
+		}
+		this.requestPersist();
+	}
+
+	// A deleted folder takes the notes inside it along
+	removeFile(path: string) {
+		const removed: TaskId[] = [];
+		for (const indexed of this.indexedPathsUnder(path)) {
+			removed.push(...this.localState.taskLinesByPath[indexed].map(x => this.service.resolveTaskId(x.id)));
+			delete this.localState.taskLinesByPath[indexed];
+		}
+		if (removed.length === 0) return;
+		this.requestPersist();
+		this.trigger('file-removed', path, Array.from(new Set(removed)));
+	}
+
+	renameFile(oldPath: string, newPath: string) {
+		const moved = this.indexedPathsUnder(oldPath);
+		if (moved.length === 0) return;
+		for (const indexed of moved) {
+			const locations = this.localState.taskLinesByPath[indexed];
+			delete this.localState.taskLinesByPath[indexed];
+			this.localState.taskLinesByPath[newPath + indexed.slice(oldPath.length)] = locations;
+		}
+		this.requestPersist();
+	}
+
+	// The indexed note at `path`, or every indexed note inside the folder at `path`
+	private indexedPathsUnder(path: string): string[] {
+		return Object.keys(this.localState.taskLinesByPath).filter(x => x === path || x.startsWith(`${path}/`));
+	}
+
+	// Every indexed task line; local IDs written before creation resolve to their Todoist IDs
+	allTaskLines(): TaskLineRef[] {
+		const refs: TaskLineRef[] = [];
+		for (const [path, locations] of Object.entries(this.localState.taskLinesByPath)) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+			for (const { id, line } of locations) refs.push({ id: this.service.resolveTaskId(id), file, line });
+		}
+		return refs;
+	}
+
+	locate(id: TaskId): TaskLineRef[] {
+		const canonical = this.service.resolveTaskId(id);
+		return this.allTaskLines().filter(ref => ref.id === canonical);
+	}
+
+	// Tasks whose ID is written on more than one line, in any notes
+	duplicates(): Map<TaskId, TaskLineRef[]> {
+		const byId = new Map<TaskId, TaskLineRef[]>();
+		for (const ref of this.allTaskLines()) byId.set(ref.id, [...(byId.get(ref.id) ?? []), ref]);
+		for (const [id, refs] of byId) {
+			if (refs.length < 2) byId.delete(id);
+		}
+		return byId;
+	}
+
+	referencedTaskIds(): Set<TaskId> {
+		return new Set(this.allTaskLines().map(ref => ref.id));
+	}
+
+	filesForTasks(ids: Iterable<TaskId>): TFile[] {
+		const wanted = new Set<TaskId>();
+		for (const id of ids) wanted.add(this.service.resolveTaskId(id));
+		return this.filesWhere(id => wanted.has(this.service.resolveTaskId(id)));
+	}
+
+	// Notes still holding a local ID that Todoist has since assigned a real ID to
+	filesWithResolvedLocalIds(): TFile[] {
+		return this.filesWhere(id => id.startsWith('local-') && this.service.resolveTaskId(id) !== id);
+	}
+
+	private filesWhere(match: (id: TaskId) => boolean): TFile[] {
+		const files: TFile[] = [];
+		for (const [path, locations] of Object.entries(this.localState.taskLinesByPath)) {
+			if (!locations.some(x => match(x.id))) continue;
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) files.push(file);
+		}
+		return files;
+	}
+
+	private reportRemoved(path: string, before: TaskLocation[] | undefined, after: TaskLocation[]) {
+		if (!before) return;
+		const remaining = new Set(after.map(x => this.service.resolveTaskId(x.id)));
+		const removed = new Set<TaskId>();
+		for (const { id } of before) {
+			const canonical = this.service.resolveTaskId(id);
+			if (!remaining.has(canonical)) removed.add(canonical);
+		}
+		if (removed.size > 0) this.trigger('lines-removed', path, Array.from(removed));
+	}
+
+	private extractTaskLines(content: string): TaskLocation[] {
+		const lines = content.split('\n');
+		const inert = findInertLines(lines);
+		const locations: TaskLocation[] = [];
+		lines.forEach((line, i) => {
+			if (inert.has(i) || !isCheckboxLine(line)) return;
+			const m = findTaskId(line);
+			if (m) locations.push({ id: m.id, line: i });
+		});
+		return locations;
+	}
+}